@@ -0,0 +1,46 @@
+import { NextResponse, NextRequest } from 'next/server';
+import * as v from 'valibot';
+
+import { availabilityCheckers } from '@/lib/availability-checkers';
+import {
+  availabilityFieldSchema,
+  type AvailabilityResponse,
+  type ErrorResponse,
+} from '@/lib/availability-contract';
+
+import { rateLimit } from '../../rate-limit';
+
+/**
+ * API route that checks if `?value=` is available for a unique field, e.g.
+ * `/api/availability/username?value=jane`. Each field is handled by its checker in
+ * `availabilityCheckers`, so adding a field does not need a new route.
+ *
+ * Responds with an `AvailabilityResponse`, 404 for an unknown field and 400 when the value breaks
+ * the field's format rules. Checks share the rate limit of the other availability routes.
+ *
+ * @param request
+ * @param context
+ * @returns
+ */
+export async function GET(request: NextRequest, context: { params: Promise<{ field: string }> }) {
+  const limited = await rateLimit(request);
+  if (limited) {
+    return limited;
+  }
+
+  const { field } = await context.params;
+  if (!v.is(availabilityFieldSchema, field)) {
+    return NextResponse.json<ErrorResponse>({ error: `Unknown field: ${field}` }, { status: 404 });
+  }
+
+  const checker = availabilityCheckers[field];
+  const value = v.safeParse(checker.schema, request.nextUrl.searchParams.get('value'));
+  if (!value.success) {
+    return NextResponse.json<ErrorResponse>(
+      { error: `Expected a valid ${field} in ?value=` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json<AvailabilityResponse>(await checker.check(value.output));
+}
@@ -0,0 +1,48 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { createRateLimiter, getClientAddress } from '@/lib/rate-limiter';
+
+/**
+ * Shared by the availability routes, so that every way of checking an email draws from the
+ * same budget, with one token per email. Each client may burst 30 checks and then make 2 per
+ * second. Batches are capped at `maxBatchSize`, no more than the burst, so that a full
+ * batch fits in a full bucket.
+ */
+export const availabilityRateLimiter = createRateLimiter({ capacity: 30, refillPerSecond: 2 });
+
+const trustedProxies = Number.parseInt(process.env.TRUSTED_PROXY_COUNT ?? '0', 10);
+
+/**
+ * Identifies the client of a request by the address the trusted proxies saw. No proxy is trusted
+ * unless a deployment sets `TRUSTED_PROXY_COUNT`, as anyone can forge `X-Forwarded-For` when
+ * there is none. Clients that cannot be told apart share one bucket.
+ */
+function getClientKey(request: NextRequest) {
+  return (
+    getClientAddress(request.headers, Number.isNaN(trustedProxies) ? 0 : trustedProxies) ??
+    'unknown'
+  );
+}
+
+/**
+ * Takes `cost` tokens from the client's bucket and returns a `429` response with `Retry-After`
+ * (in seconds) when there are not enough, or `null` when the request may proceed.
+ *
+ * @param request
+ * @param cost
+ * @returns
+ */
+export async function rateLimit(request: NextRequest, cost = 1) {
+  const { allowed, retryAfter } = await availabilityRateLimiter.consume(
+    getClientKey(request),
+    cost
+  );
+  if (allowed) {
+    return null;
+  }
+
+  return NextResponse.json(
+    { error: 'Too many requests' },
+    { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfter / 1000)) } }
+  );
+}
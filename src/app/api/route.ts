@@ -1,16 +1,96 @@
 import { NextResponse, NextRequest } from 'next/server';
+import * as v from 'valibot';
+
+import {
+  availabilityRequestSchema,
+  batchAvailabilityRequestSchema,
+  maxBatchSize,
+  type AvailabilityResponse,
+  type BatchAvailabilityResponse,
+  type BatchItem,
+  type ErrorResponse,
+} from '@/lib/availability-contract';
+import { getEmailAvailability } from '@/lib/email-availability';
+import { emailSchema } from '@/lib/signup-schema';
+
+import { getLocale } from '../locale';
+import { rateLimit } from './rate-limit';
 
 /**
- * API route that checks if an email exists in a predefined list.
+ * API route that checks if an email is available for a new account.
+ * Responds with an `AvailabilityResponse`, which explains why an unavailable email cannot be used.
+ * Checks are rate limited per client to prevent enumerating registered emails.
+ * Responds with 400 when `email` is missing or not a valid email.
  *
  * @param request
  * @returns
  */
 export async function GET(request: NextRequest) {
+  const limited = await rateLimit(request);
+  if (limited) {
+    return limited;
+  }
+
   const { searchParams } = request.nextUrl;
 
-  const email = searchParams.get('email');
-  const emails = ['example@example.com', 'test@example.com'];
+  const input = v.safeParse(availabilityRequestSchema, { email: searchParams.get('email') });
+  if (!input.success) {
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Expected a valid email in ?email=' },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json<AvailabilityResponse>(
+    await getEmailAvailability().check(input.output.email)
+  );
+}
+
+/**
+ * Batch form of {@link GET}: checks every email of an `{ emails: string[] }` body at once.
+ * The `results` are in the same order as `emails`. An entry that is not a valid email gets an
+ * `error` of its own, in the locale of the request, instead of failing the whole request.
+ * Responds with 413 for more than {@link maxBatchSize} emails. Every valid email costs a token
+ * of the rate limit shared with the single checks.
+ *
+ * @param request
+ * @returns
+ */
+export async function POST(request: NextRequest) {
+  const body: unknown = await request.json().catch(() => null);
+  const input = v.safeParse(batchAvailabilityRequestSchema, body);
+
+  if (!input.success) {
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Expected { emails: string[] }' },
+      { status: 400 }
+    );
+  }
+
+  const { emails } = input.output;
+  if (emails.length > maxBatchSize) {
+    return NextResponse.json<ErrorResponse>(
+      { error: `Expected at most ${maxBatchSize} emails` },
+      { status: 413 }
+    );
+  }
+
+  const locale = await getLocale();
+  const parsed = emails.map((email) => v.safeParse(emailSchema, email, { lang: locale }));
+  const limited = await rateLimit(request, parsed.filter((result) => result.success).length);
+  if (limited) {
+    return limited;
+  }
+
+  const availability = getEmailAvailability();
+  const results = await Promise.all(
+    parsed.map(async (result, index): Promise<BatchItem> => {
+      const input = emails[index];
+      return result.success
+        ? { input, result: await availability.check(result.output) }
+        : { input, error: result.issues[0].message };
+    })
+  );
 
-  return NextResponse.json({ result: emails.includes(email || '') });
+  return NextResponse.json<BatchAvailabilityResponse>({ results });
 }
@@ -0,0 +1,115 @@
+import { NextResponse, NextRequest } from 'next/server';
+import * as v from 'valibot';
+
+import { availabilityCheckers } from '@/lib/availability-checkers';
+import {
+  getUnavailableMessage,
+  localizeAvailability,
+  toAvailabilityResult,
+  type AvailabilityField,
+} from '@/lib/availability-contract';
+import { getEmailAvailability } from '@/lib/email-availability';
+import { message } from '@/lib/i18n';
+import {
+  confirmPasswordSchema,
+  emailSchema,
+  nameSchema,
+  passwordSchema,
+  passwordsMatch,
+  toSignupFieldErrors,
+  usernameSchema,
+  type SignupResponse,
+} from '@/lib/signup-schema';
+import { getUsernameAvailability } from '@/lib/username-availability';
+import { checkResultAsync } from '@/lib/valibot-actions';
+
+import { getLocale } from '../../locale';
+import { rateLimit } from '../rate-limit';
+
+const isAvailable = (field: AvailabilityField) =>
+  checkResultAsync(
+    async (value: string) =>
+      toAvailabilityResult(await availabilityCheckers[field].check(value), field),
+    message(`${field}NotAvailable`),
+    localizeAvailability(field)
+  );
+
+const signupSchema = v.pipeAsync(
+  v.objectAsync({
+    name: nameSchema,
+    username: v.pipeAsync(usernameSchema, isAvailable('username')),
+    email: v.pipeAsync(emailSchema, isAvailable('email')),
+    password: passwordSchema,
+    confirmPassword: confirmPasswordSchema,
+    newsletter: v.optional(v.boolean(), false),
+  }),
+  v.forward(
+    v.partialCheck(
+      [['password'], ['confirmPassword']],
+      passwordsMatch,
+      message('passwordMismatch')
+    ),
+    ['confirmPassword']
+  )
+);
+
+/**
+ * API route that creates an account from a `{ name, username, email, password, confirmPassword }`
+ * body.
+ *
+ * The body is validated with the same rules as the signup form, and availability is checked
+ * directly against the stores. Registration itself is atomic, so when two signups race for
+ * the same email or username only one succeeds. Field errors are returned as
+ * `{ errors: SignupFieldErrors }` with status 400, or 409 when a value was taken in the meantime.
+ * Error messages are in the locale of the request (see `getLocale`). The password is checked
+ * against the same rules but not kept, as this example stores no account records.
+ *
+ * @param request
+ * @returns
+ */
+export async function POST(request: NextRequest) {
+  const limited = await rateLimit(request);
+  if (limited) {
+    return limited;
+  }
+
+  const body: unknown = await request.json().catch(() => null);
+  const locale = await getLocale();
+  const result = await v.safeParseAsync(signupSchema, body, { lang: locale });
+
+  if (!result.success) {
+    const errors = toSignupFieldErrors(result.issues);
+    if (Object.keys(errors).length === 0) {
+      return NextResponse.json(
+        {
+          error:
+            'Expected { name: string, username: string, email: string, password: string, confirmPassword: string, newsletter?: boolean }',
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json<SignupResponse>({ errors }, { status: 400 });
+  }
+
+  const { username, email } = result.output;
+  const emails = getEmailAvailability();
+  const usernames = getUsernameAvailability();
+
+  if (!(await emails.register(email))) {
+    return NextResponse.json<SignupResponse>(
+      { errors: { email: getUnavailableMessage('email', 'registered', locale) } },
+      { status: 409 }
+    );
+  }
+
+  // Release the email again so the user can retry with another username
+  if (!(await usernames.register(username))) {
+    await emails.unregister(email);
+    return NextResponse.json<SignupResponse>(
+      { errors: { username: getUnavailableMessage('username', 'registered', locale) } },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json<SignupResponse>({ email: emails.normalize(email) }, { status: 201 });
+}
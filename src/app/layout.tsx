@@ -1,5 +1,10 @@
 import { Geist, Geist_Mono } from 'next/font/google';
 
+import { LocaleProvider } from '@/components/locale-provider';
+import { ValidatorCacheProvider } from '@/components/validator-cache-provider';
+
+import { getLocale } from './locale';
+
 import type { Metadata } from 'next';
 import './globals.css';
 
@@ -18,13 +23,15 @@ export const metadata: Metadata = {
   description: 'Generated by create next app',
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getLocale();
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`
           ${geistSans.variable}
@@ -32,7 +39,11 @@ export default function RootLayout({
           antialiased
         `}
       >
-        {children}
+        <LocaleProvider locale={locale}>
+          <ValidatorCacheProvider ttl={30_000} persist>
+            {children}
+          </ValidatorCacheProvider>
+        </LocaleProvider>
       </body>
     </html>
   );
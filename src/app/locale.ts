@@ -0,0 +1,12 @@
+import { cookies, headers } from 'next/headers';
+
+import { localeCookie, negotiateLocale } from '@/lib/i18n';
+
+/**
+ * The locale of the current request, for server components and route handlers. The locale
+ * cookie set by the language switcher wins over `Accept-Language`.
+ */
+export async function getLocale() {
+  const [cookieStore, headerList] = await Promise.all([cookies(), headers()]);
+  return negotiateLocale(cookieStore.get(localeCookie)?.value, headerList.get('accept-language'));
+}
@@ -1,9 +1,16 @@
+import { LocaleSwitcher } from '@/components/locale-switcher';
 import { SignupForm } from '@/components/signup-form';
+import { translate } from '@/lib/i18n';
+
+import { getLocale } from './locale';
+
+export default async function Home() {
+  const locale = await getLocale();
 
-export default function Home() {
   return (
     <div className="space-y-4 p-8">
-      <h1 className="text-2xl font-bold">Sign Up</h1>
+      <LocaleSwitcher />
+      <h1 className="text-2xl font-bold">{translate(locale, 'title')}</h1>
       <div className="w-100">
         <SignupForm />
       </div>
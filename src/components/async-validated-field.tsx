@@ -0,0 +1,109 @@
+'use client';
+
+import { useId } from 'react';
+
+import type { ValidationStatus } from '@/lib/debounced-validator';
+import type { UseFormRegisterReturn } from 'react-hook-form';
+
+type Props = {
+  label: string;
+  registration: UseFormRegisterReturn;
+  error?: string;
+  status?: ValidationStatus;
+  type?: React.HTMLInputTypeAttribute;
+  placeholder?: string;
+  autoComplete?: string;
+  pendingMessage?: string;
+  validMessage?: string;
+  children?: React.ReactNode;
+};
+
+/**
+ * A labelled input for a `react-hook-form` field whose value may be checked asynchronously.
+ *
+ * Pass the `status` of the field's debounced validator to show a spinner while the check is
+ * debouncing or validating and a check mark once it is valid. An `error` takes precedence over
+ * both. The message below the input is an `aria-live` region, so screen readers announce when a
+ * check starts and how it ends; the input refers to it with `aria-describedby` while it is invalid.
+ * `children` are rendered below the message, e.g. suggestions for a taken value.
+ */
+export function AsyncValidatedField({
+  label,
+  registration,
+  error,
+  status = 'idle',
+  type = 'text',
+  placeholder,
+  autoComplete,
+  pendingMessage = 'Checking availability…',
+  validMessage = 'Available',
+  children,
+}: Props) {
+  const id = useId();
+  const messageId = `${id}-message`;
+  const pending = !error && (status === 'debouncing' || status === 'validating');
+  const valid = !error && status === 'valid';
+
+  return (
+    <div className="flex flex-col gap-1">
+      <label
+        htmlFor={id}
+        className={`
+          text-sm font-medium text-zinc-700
+          dark:text-zinc-300
+        `}
+      >
+        {label}
+      </label>
+      <div className="relative">
+        <input
+          id={id}
+          type={type}
+          autoComplete={autoComplete}
+          aria-invalid={error ? true : undefined}
+          aria-describedby={error ? messageId : undefined}
+          aria-busy={pending || undefined}
+          className={`
+            w-full rounded border border-zinc-300 bg-white py-2 pr-9 pl-3
+            text-zinc-900 shadow-sm
+            placeholder:text-zinc-400
+            focus:border-blue-500 focus:ring-1 focus:ring-blue-500
+            focus:outline-none
+            aria-invalid:border-red-500
+            dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-100
+            dark:placeholder:text-zinc-500
+          `}
+          placeholder={placeholder}
+          {...registration}
+        />
+        {pending && (
+          <span
+            aria-hidden="true"
+            className={`
+              absolute top-1/2 right-3 size-4 -translate-y-1/2 animate-spin
+              rounded-full border-2 border-zinc-300 border-t-blue-500
+            `}
+          />
+        )}
+        {valid && (
+          <span
+            aria-hidden="true"
+            className="absolute top-1/2 right-3 -translate-y-1/2 text-green-600"
+          >
+            ✓
+          </span>
+        )}
+      </div>
+      <span id={messageId} aria-live="polite">
+        {error ? (
+          <span className="text-red-500">{error}</span>
+        ) : pending ? (
+          <span className="text-zinc-500">{pendingMessage}</span>
+        ) : (
+          valid && <span className="sr-only">{validMessage}</span>
+        )}
+      </span>
+      {children}
+    </div>
+  );
+}
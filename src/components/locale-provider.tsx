@@ -0,0 +1,59 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { createContext, useCallback, useContext, useMemo, useState } from 'react';
+
+import { defaultLocale, localeCookie, translate, type Locale, type MessageKey } from '@/lib/i18n';
+
+type LocaleContextValue = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: Record<string, string>) => string;
+};
+
+const LocaleContext = createContext<LocaleContextValue>({
+  locale: defaultLocale,
+  setLocale: () => {},
+  t: (key, params) => translate(defaultLocale, key, params),
+});
+
+type Props = {
+  children: React.ReactNode;
+  locale: Locale;
+};
+
+/**
+ * Provides the active locale, starting with the one the server rendered `<html lang>` with.
+ *
+ * `setLocale` switches it in place, remembers it in the locale cookie for later requests and
+ * refreshes the server components, so every message below re-renders in the new language.
+ */
+export function LocaleProvider({ children, locale: initialLocale }: Props) {
+  const router = useRouter();
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  const setLocale = useCallback(
+    (next: Locale) => {
+      setLocaleState(next);
+      document.documentElement.lang = next;
+      document.cookie = `${localeCookie}=${next}; path=/; max-age=31536000; samesite=lax`;
+      router.refresh();
+    },
+    [router]
+  );
+
+  const value = useMemo<LocaleContextValue>(
+    () => ({ locale, setLocale, t: (key, params) => translate(locale, key, params) }),
+    [locale, setLocale]
+  );
+
+  return <LocaleContext value={value}>{children}</LocaleContext>;
+}
+
+/**
+ * Returns the active locale, a setter and a `t` function that translates into it. Outside of a
+ * {@link LocaleProvider}, the locale is always `defaultLocale`.
+ */
+export function useLocale() {
+  return useContext(LocaleContext);
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { isLocale, locales, type Locale } from '@/lib/i18n';
+
+import { useLocale } from './locale-provider';
+
+const names: Record<Locale, string> = {
+  en: 'English',
+  ja: '日本語',
+};
+
+/**
+ * Lets the user switch the language of the page. Each language is named in itself.
+ */
+export function LocaleSwitcher() {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span
+        className={`
+          text-zinc-700
+          dark:text-zinc-300
+        `}
+      >
+        {t('language')}
+      </span>
+      <select
+        value={locale}
+        onChange={(event) => {
+          if (isLocale(event.target.value)) {
+            setLocale(event.target.value);
+          }
+        }}
+        className={`
+          rounded border border-zinc-300 bg-white px-2 py-1 text-zinc-900
+          dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-100
+        `}
+      >
+        {locales.map((option) => (
+          <option key={option} value={option} lang={option}>
+            {names[option]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
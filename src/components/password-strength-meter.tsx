@@ -0,0 +1,67 @@
+'use client';
+
+import { useLocale } from './locale-provider';
+
+import type { PasswordScore } from '@/lib/password-strength';
+
+const levels = [1, 2, 3, 4] as const;
+
+const colors: Record<PasswordScore, string> = {
+  0: 'bg-red-500',
+  1: 'bg-red-500',
+  2: 'bg-yellow-500',
+  3: 'bg-green-500',
+  4: 'bg-green-600',
+};
+
+type Props = {
+  score: PasswordScore;
+};
+
+/**
+ * Shows a password strength score as four bars and a label. It is exposed as an ARIA `meter`,
+ * so screen readers read the label instead of the number.
+ */
+export function PasswordStrengthMeter({ score }: Props) {
+  const { t } = useLocale();
+  const label = t(`strength.${score}`);
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <div
+        role="meter"
+        aria-label={t('passwordStrength')}
+        aria-valuemin={0}
+        aria-valuemax={4}
+        aria-valuenow={score}
+        aria-valuetext={label}
+        className="flex flex-1 gap-1"
+      >
+        {levels.map((level) => (
+          <span
+            key={level}
+            className={`
+              h-1.5 flex-1 rounded-full
+              ${
+                level <= score
+                  ? colors[score]
+                  : `
+                    bg-zinc-200
+                    dark:bg-zinc-700
+                  `
+              }
+            `}
+          />
+        ))}
+      </div>
+      <span
+        className={`
+          w-24 text-right text-zinc-600
+          dark:text-zinc-400
+        `}
+      >
+        {label}
+      </span>
+    </div>
+  );
+}
@@ -1,84 +1,246 @@
 'use client';
 
-import { useSignupForm } from '@/hooks/use-signup-form';
+import { Fragment } from 'react';
 
-export function SignupForm() {
-  const form = useSignupForm();
-  const handleSubmit = form.handleSubmit((data) => {
-    alert(JSON.stringify(data, null, 2));
-  });
-  const disabled = !form.formState.isValid || form.formState.isSubmitting;
+import { useSignupWizard } from '@/hooks/use-signup-wizard';
+import { RateLimitError } from '@/lib/availability-client';
+import { signupSteps } from '@/lib/signup-steps';
+
+import { AsyncValidatedField } from './async-validated-field';
+import { useLocale } from './locale-provider';
+import { PasswordStrengthMeter } from './password-strength-meter';
+import { SuggestionChips } from './suggestion-chips';
+
+import type { MessageKey } from '@/lib/i18n';
+
+/**
+ * Explains why an availability check could not be completed, after its retries have run out.
+ */
+function describeCheckError(error: unknown, field: 'email' | 'username'): MessageKey {
+  return error instanceof RateLimitError ? 'tooManyChecks' : `${field}CheckFailed`;
+}
+
+type Props = {
+  /** Where a user whose email is already registered can sign in, with `?email=` appended. */
+  signInPath?: string;
+  /** Where that user can reset their password, with `?email=` appended. */
+  resetPasswordPath?: string;
+};
+
+/**
+ * The signup wizard: one step of `signupSteps` at a time, with the account created on the last.
+ *
+ * When an email is already registered, it links to the pages given as `signInPath` and
+ * `resetPasswordPath`. The app has neither yet, so the links are only shown for the ones passed.
+ */
+export function SignupForm({ signInPath, resetPasswordPath }: Props) {
+  const {
+    form,
+    submit,
+    submitPhase,
+    registeredEmail,
+    emailValidation,
+    flushEmail,
+    usernameValidation,
+    flushUsername,
+    chooseUsername,
+    passwordStrength,
+    revalidateConfirmation,
+    step,
+    index,
+    isLastStep,
+    advancing,
+    next,
+    back,
+  } = useSignupWizard();
+  const { t } = useLocale();
+  const { errors } = form.formState;
+  // Not disabled while the form is invalid: validity lags behind the debounced checks, and a
+  // submission validates everything again anyway
+  const busy = isLastStep ? submitPhase !== null : advancing;
+
+  const registeredLinks = [
+    { path: signInPath, label: t('signIn') },
+    { path: resetPasswordPath, label: t('resetPassword') },
+  ].filter((link): link is { path: string; label: string } => link.path !== undefined);
+
+  if (registeredEmail) {
+    return (
+      <p className="text-green-600" role="status">
+        {t('accountCreated', { email: registeredEmail })}
+      </p>
+    );
+  }
+
+  // Enter submits the form, which only creates the account on the last step
+  const onSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    if (isLastStep) {
+      submit(event);
+      return;
+    }
+    event.preventDefault();
+    next();
+  };
 
   return (
-    <form className="flex flex-col gap-4" onSubmit={handleSubmit}>
-      <label className="flex flex-col gap-1">
-        <span
-          className={`
-            text-sm font-medium text-zinc-700
-            dark:text-zinc-300
-          `}
-        >
-          Name
-        </span>
-        <input
-          type="text"
-          className={`
-            rounded border border-zinc-300 bg-white px-3 py-2 text-zinc-900
-            shadow-sm
-            placeholder:text-zinc-400
-            focus:border-blue-500 focus:ring-1 focus:ring-blue-500
-            focus:outline-none
-            dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-100
-            dark:placeholder:text-zinc-500
-          `}
-          placeholder="Your Name"
-          {...form.register('name')}
+    <form className="flex flex-col gap-4" onSubmit={onSubmit}>
+      <p
+        className={`
+          text-sm text-zinc-600
+          dark:text-zinc-400
+        `}
+      >
+        {t('stepOf', {
+          current: String(index + 1),
+          total: String(signupSteps.length),
+          title: t(`step.${step}`),
+        })}
+      </p>
+
+      {step === 'account' && (
+        <>
+          <AsyncValidatedField
+            label={t('usernameLabel')}
+            autoComplete="username"
+            placeholder="your_name"
+            registration={form.register('username', { onBlur: flushUsername })}
+            error={
+              errors.username?.type === 'check_result' && usernameValidation.status === 'error'
+                ? t(describeCheckError(usernameValidation.error, 'username'))
+                : errors.username?.message
+            }
+            status={usernameValidation.status}
+            pendingMessage={t('checkingAvailability')}
+            validMessage={t('available')}
+          >
+            {usernameValidation.status === 'invalid' && (
+              <SuggestionChips
+                suggestions={usernameValidation.result?.suggestions ?? []}
+                label={t('suggestions')}
+                onSelect={chooseUsername}
+              />
+            )}
+          </AsyncValidatedField>
+          <AsyncValidatedField
+            label={t('emailLabel')}
+            type="email"
+            placeholder="you@example.com"
+            registration={form.register('email', { onBlur: flushEmail })}
+            error={
+              errors.email?.type === 'check_result' && emailValidation.status === 'error'
+                ? t(describeCheckError(emailValidation.error, 'email'))
+                : errors.email?.message
+            }
+            status={emailValidation.status}
+            pendingMessage={t('checkingAvailability')}
+            validMessage={t('available')}
+          >
+            {emailValidation.status === 'invalid' &&
+              emailValidation.result?.code === 'registered' &&
+              registeredLinks.length > 0 && (
+                <span
+                  className={`
+                    text-sm text-zinc-600
+                    dark:text-zinc-400
+                  `}
+                >
+                  {t('registeredPrompt')}
+                  {registeredLinks.map(({ path, label }, linkIndex) => (
+                    <Fragment key={label}>
+                      {linkIndex > 0 && t('or')}
+                      <a
+                        href={`${path}?email=${encodeURIComponent(emailValidation.value ?? '')}`}
+                        className="text-blue-600 underline"
+                      >
+                        {label}
+                      </a>
+                    </Fragment>
+                  ))}
+                  {t('registeredSuffix')}
+                </span>
+              )}
+          </AsyncValidatedField>
+          <AsyncValidatedField
+            label={t('passwordLabel')}
+            type="password"
+            autoComplete="new-password"
+            registration={form.register('password', { onChange: revalidateConfirmation })}
+            error={errors.password?.message}
+          >
+            {passwordStrength && <PasswordStrengthMeter score={passwordStrength.score} />}
+          </AsyncValidatedField>
+          <AsyncValidatedField
+            label={t('confirmPasswordLabel')}
+            type="password"
+            autoComplete="new-password"
+            registration={form.register('confirmPassword')}
+            error={errors.confirmPassword?.message}
+          />
+        </>
+      )}
+      {step === 'profile' && (
+        <AsyncValidatedField
+          label={t('nameLabel')}
+          placeholder={t('namePlaceholder')}
+          registration={form.register('name')}
+          error={errors.name?.message}
         />
-        {form.formState.errors.name && (
-          <span className="text-red-500">{form.formState.errors.name.message}</span>
-        )}
-      </label>
-      <label className="flex flex-col gap-1">
-        <span
-          className={`
-            text-sm font-medium text-zinc-700
-            dark:text-zinc-300
-          `}
-        >
-          Email
+      )}
+      {step === 'preferences' && (
+        <label className="flex items-center gap-2">
+          <input type="checkbox" {...form.register('newsletter')} />
+          <span
+            className={`
+              text-sm text-zinc-700
+              dark:text-zinc-300
+            `}
+          >
+            {t('newsletterLabel')}
+          </span>
+        </label>
+      )}
+
+      {errors.root?.server && (
+        <span className="text-red-500" role="alert">
+          {t(errors.root.server.type === 'rate_limit' ? 'tooManyAttempts' : 'somethingWentWrong')}
         </span>
-        <input
-          type="email"
+      )}
+
+      <div className="flex gap-2">
+        {index > 0 && (
+          <button
+            type="button"
+            onClick={back}
+            className={`
+              rounded border border-zinc-300 px-4 py-2 text-zinc-700
+              hover:bg-zinc-100
+              focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
+              focus:outline-none
+              dark:border-zinc-600 dark:text-zinc-300 dark:hover:bg-zinc-800
+            `}
+          >
+            {t('back')}
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={busy}
+          aria-busy={busy || undefined}
           className={`
-            rounded border border-zinc-300 bg-white px-3 py-2 text-zinc-900
-            shadow-sm
-            placeholder:text-zinc-400
-            focus:border-blue-500 focus:ring-1 focus:ring-blue-500
+            flex-1 rounded bg-blue-600 px-4 py-2 text-white
+            hover:bg-blue-700
+            focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
             focus:outline-none
-            dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-100
-            dark:placeholder:text-zinc-500
+            disabled:cursor-not-allowed disabled:bg-blue-300
           `}
-          placeholder="you@example.com"
-          {...form.register('email')}
-        />
-        {form.formState.errors.email && (
-          <span className="text-red-500">{form.formState.errors.email.message}</span>
-        )}
-      </label>
-
-      <button
-        type="submit"
-        disabled={disabled}
-        className={`
-          rounded bg-blue-600 px-4 py-2 text-white
-          hover:bg-blue-700
-          focus:ring-2 focus:ring-blue-500 focus:ring-offset-2
-          focus:outline-none
-          disabled:cursor-not-allowed disabled:bg-blue-300
-        `}
-      >
-        Sign Up
-      </button>
+        >
+          {!isLastStep ? t('next') : submitPhase ? t(`submitPhase.${submitPhase}`) : t('submit')}
+        </button>
+      </div>
+      {/* The button shows the progress too, but a changing label is not announced */}
+      <p role="status" className="sr-only">
+        {submitPhase && t(`submitPhase.${submitPhase}`)}
+      </p>
     </form>
   );
 }
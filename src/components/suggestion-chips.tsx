@@ -0,0 +1,35 @@
+type Props = {
+  suggestions: readonly string[];
+  onSelect: (suggestion: string) => void;
+  label?: string;
+};
+
+/**
+ * Shows alternative values as clickable chips, e.g. available usernames next to a taken one.
+ */
+export function SuggestionChips({ suggestions, onSelect, label = 'Available:' }: Props) {
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-zinc-500">{label}</span>
+      {suggestions.map((suggestion) => (
+        <button
+          key={suggestion}
+          type="button"
+          className={`
+            rounded-full border border-zinc-300 px-3 py-0.5 text-zinc-700
+            hover:border-blue-500 hover:text-blue-600
+            focus:ring-2 focus:ring-blue-500 focus:outline-none
+            dark:border-zinc-600 dark:text-zinc-300
+          `}
+          onClick={() => onSelect(suggestion)}
+        >
+          {suggestion}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { createContext, useContext, useState } from 'react';
+
+import {
+  createValidatorCacheRegistry,
+  type ValidatorCacheRegistry,
+} from '@/lib/validator-cache-registry';
+
+const ValidatorCacheContext = createContext<ValidatorCacheRegistry | null>(null);
+
+type Props = {
+  children: React.ReactNode;
+  maxSize?: number;
+  ttl?: number;
+  persist?: boolean;
+};
+
+/**
+ * Shares validator caches between every `useDebouncedValidator` below it that uses the same
+ * `namespace`, so a value checked in one form is not checked again in another.
+ *
+ * When `persist` is set, each namespace is also stored in `sessionStorage` and survives reloads.
+ */
+export function ValidatorCacheProvider({ children, maxSize, ttl, persist = false }: Props) {
+  const [registry] = useState(() =>
+    createValidatorCacheRegistry({
+      maxSize,
+      ttl,
+      storage: persist && typeof window !== 'undefined' ? window.sessionStorage : undefined,
+    })
+  );
+
+  return <ValidatorCacheContext value={registry}>{children}</ValidatorCacheContext>;
+}
+
+/**
+ * Returns the registry of the nearest {@link ValidatorCacheProvider}, or `null` outside of one.
+ * Use it to `invalidate` or `clear` shared results, e.g. right after an email has been registered.
+ */
+export function useValidatorCacheRegistry() {
+  return useContext(ValidatorCacheContext);
+}
@@ -1,8 +1,18 @@
 import { renderHook, act } from '@testing-library/react';
+import { createElement } from 'react';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
+import {
+  ValidatorCacheProvider,
+  useValidatorCacheRegistry,
+} from '@/components/validator-cache-provider';
+import { createValidatorCache } from '@/lib/validator-cache';
+
 import { useDebouncedValidator } from '../use-debounced-validator';
 
+import type { ValidationResult } from '@/lib/validation-result';
+import type { ValidatorCacheRegistry } from '@/lib/validator-cache-registry';
+
 /**
  * Test suite for useDebouncedValidator hook.
  * This hook provides debounced validation with caching, error handling, and race condition prevention.
@@ -72,7 +82,7 @@ describe('useDebouncedValidator', () => {
       vi.advanceTimersByTime(100);
 
       expect(validate).toHaveBeenCalledTimes(1);
-      expect(validate).toHaveBeenCalledWith('test2');
+      expect(validate).toHaveBeenCalledWith('test2', expect.any(AbortSignal));
 
       expect(await promise1).toBe(true);
       expect(await promise2).toBe(true);
@@ -89,7 +99,7 @@ describe('useDebouncedValidator', () => {
 
       vi.advanceTimersByTime(100);
 
-      expect(validate).toHaveBeenCalledWith('test');
+      expect(validate).toHaveBeenCalledWith('test', expect.any(AbortSignal));
 
       expect(await promise).toBe(true);
     });
@@ -105,11 +115,173 @@ describe('useDebouncedValidator', () => {
 
       vi.runOnlyPendingTimers();
 
-      expect(validate).toHaveBeenCalledWith('test');
+      expect(validate).toHaveBeenCalledWith('test', expect.any(AbortSignal));
       expect(await promise).toBe(true);
     });
   });
 
+  describe('Debounce controls', () => {
+    /**
+     * Verifies that leading validates the first call immediately and debounces the rest.
+     */
+    it('should validate the first call immediately with leading', async () => {
+      const validate = vi.fn().mockResolvedValue(true);
+      const { result } = renderHook(() =>
+        useDebouncedValidator(validate, { delay: 100, leading: true })
+      );
+
+      const promise1 = result.current.debouncedValidator('a');
+      expect(validate).toHaveBeenCalledTimes(1);
+      expect(validate).toHaveBeenLastCalledWith('a', expect.any(AbortSignal));
+      expect(await promise1).toBe(true);
+
+      const promise2 = result.current.debouncedValidator('ab');
+      const promise3 = result.current.debouncedValidator('abc');
+      expect(validate).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(100);
+      expect(validate).toHaveBeenCalledTimes(2);
+      expect(validate).toHaveBeenLastCalledWith('abc', expect.any(AbortSignal));
+      expect(await promise2).toBe(true);
+      expect(await promise3).toBe(true);
+
+      // A new burst starts with a leading call again
+      result.current.debouncedValidator('abcd');
+      expect(validate).toHaveBeenCalledTimes(3);
+    });
+
+    /**
+     * Verifies that maxWait guarantees a validation while calls keep coming in.
+     */
+    it('should validate at least every maxWait ms', () => {
+      const validate = vi.fn().mockResolvedValue(true);
+      const { result } = renderHook(() =>
+        useDebouncedValidator(validate, { delay: 100, maxWait: 250 })
+      );
+
+      for (let i = 0; i < 5; i++) {
+        result.current.debouncedValidator(`value${i}`);
+        vi.advanceTimersByTime(60);
+      }
+
+      expect(validate).toHaveBeenCalledTimes(1);
+      expect(validate).toHaveBeenLastCalledWith('value4', expect.any(AbortSignal));
+    });
+
+    /**
+     * Verifies that flush runs the pending validation without waiting for the delay.
+     */
+    it('should run the pending validation on flush', async () => {
+      const validate = vi.fn().mockResolvedValue(false);
+      const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 1000 }));
+
+      const promise = result.current.debouncedValidator('test');
+      const flushed = result.current.flush();
+
+      expect(validate).toHaveBeenCalledWith('test', expect.any(AbortSignal));
+      expect(await flushed).toEqual({ valid: false });
+      expect(await promise).toBe(false);
+
+      vi.advanceTimersByTime(1000);
+      expect(validate).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Verifies that flush waits for an in-flight validation and resolves undefined when idle.
+     */
+    it('should resolve flush with the in-flight result or undefined', async () => {
+      let resolveValidation: (result: boolean) => void = () => {};
+      const validate = vi.fn(
+        () => new Promise<boolean>((resolve) => (resolveValidation = resolve))
+      );
+      const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+      expect(await result.current.flush()).toBeUndefined();
+
+      result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      const flushed = result.current.flush();
+      resolveValidation(true);
+
+      expect(await flushed).toEqual({ valid: true });
+    });
+
+    /**
+     * Verifies that calling again with the in-flight value joins it instead of restarting it.
+     */
+    it('should join an in-flight validation of the same value', async () => {
+      let resolveValidation: (result: boolean) => void = () => {};
+      const validate = vi.fn(
+        () => new Promise<boolean>((resolve) => (resolveValidation = resolve))
+      );
+      const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+      const promise1 = result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      const promise2 = result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      resolveValidation(true);
+
+      expect(await promise1).toBe(true);
+      expect(await promise2).toBe(true);
+      expect(validate).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Verifies that reset clears the cache and returns the state to idle.
+     */
+    it('should clear cache and state on reset', async () => {
+      const validate = vi.fn().mockResolvedValue(true);
+      const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+      await act(async () => {
+        const promise = result.current.debouncedValidator('test');
+        vi.advanceTimersByTime(100);
+        await promise;
+      });
+      expect(result.current.state.status).toBe('valid');
+
+      act(() => {
+        result.current.reset();
+      });
+      expect(result.current.state.status).toBe('idle');
+      expect(result.current.state.value).toBeUndefined();
+
+      const promise = result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      await promise;
+      expect(validate).toHaveBeenCalledTimes(2);
+    });
+
+    /**
+     * Verifies that invalidate only drops the cached result of its value and keeps the state.
+     */
+    it('should validate an invalidated value again', async () => {
+      const validate = vi.fn().mockResolvedValue(true);
+      const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+      for (const value of ['test', 'other']) {
+        await act(async () => {
+          const promise = result.current.debouncedValidator(value);
+          vi.advanceTimersByTime(100);
+          await promise;
+        });
+      }
+      expect(validate).toHaveBeenCalledTimes(2);
+
+      act(() => {
+        result.current.invalidate('test');
+      });
+      expect(result.current.state).toMatchObject({ status: 'valid', value: 'other' });
+
+      expect(await result.current.debouncedValidator('other')).toBe(true);
+      const promise = result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      await promise;
+      expect(validate).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe('Caching', () => {
     /**
      * Verifies that identical values are cached and returned immediately without debounce.
@@ -169,7 +341,7 @@ describe('useDebouncedValidator', () => {
       const promise = result.current.debouncedValidator('test');
       vi.advanceTimersByTime(100);
 
-      expect(validate).toHaveBeenCalledWith('test');
+      expect(validate).toHaveBeenCalledWith('test', expect.any(AbortSignal));
 
       expect(await promise).toBe(false);
     });
@@ -184,7 +356,7 @@ describe('useDebouncedValidator', () => {
       const promise = result.current.debouncedValidator('test');
       vi.advanceTimersByTime(100);
 
-      expect(validate).toHaveBeenCalledWith('test');
+      expect(validate).toHaveBeenCalledWith('test', expect.any(AbortSignal));
       expect(await promise).toBe(false);
     });
 
@@ -222,6 +394,136 @@ describe('useDebouncedValidator', () => {
       expect(validate).toHaveBeenCalledTimes(4);
     });
 
+    /**
+     * Verifies that recently used entries survive eviction.
+     */
+    it('should evict the least recently used entry', async () => {
+      const validate = vi.fn().mockResolvedValue(true);
+      const { result } = renderHook(() =>
+        useDebouncedValidator(validate, { delay: 100, maxCacheSize: 2 })
+      );
+
+      for (const value of ['value1', 'value2']) {
+        const promise = result.current.debouncedValidator(value);
+        vi.advanceTimersByTime(100);
+        await promise;
+      }
+
+      // Cache hit marks value1 as recently used
+      await result.current.debouncedValidator('value1');
+
+      const promise3 = result.current.debouncedValidator('value3');
+      vi.advanceTimersByTime(100);
+      await promise3;
+      expect(validate).toHaveBeenCalledTimes(3);
+
+      await result.current.debouncedValidator('value1');
+      expect(validate).toHaveBeenCalledTimes(3);
+
+      const promise4 = result.current.debouncedValidator('value2');
+      vi.advanceTimersByTime(100);
+      await promise4;
+      expect(validate).toHaveBeenCalledTimes(4);
+    });
+
+    /**
+     * Verifies that getCacheKey lets different values share a cache entry.
+     */
+    it('should use getCacheKey for cache lookups', async () => {
+      const validate = vi.fn().mockResolvedValue(true);
+      const { result } = renderHook(() =>
+        useDebouncedValidator(validate, {
+          delay: 100,
+          getCacheKey: (value: { email: string }) => value.email.toLowerCase(),
+        })
+      );
+
+      const promise = result.current.debouncedValidator({ email: 'Test@Example.com' });
+      vi.advanceTimersByTime(100);
+      await promise;
+
+      expect(await result.current.debouncedValidator({ email: 'test@example.com' })).toBe(true);
+      expect(validate).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Verifies that cached results expire after cacheTtl.
+     */
+    it('should revalidate after cacheTtl expires', async () => {
+      const validate = vi.fn().mockResolvedValue(true);
+      const { result } = renderHook(() =>
+        useDebouncedValidator(validate, { delay: 100, cacheTtl: 1000 })
+      );
+
+      const promise1 = result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      await promise1;
+
+      vi.advanceTimersByTime(999);
+      await result.current.debouncedValidator('test');
+      expect(validate).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1);
+      const promise2 = result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      await promise2;
+      expect(validate).toHaveBeenCalledTimes(2);
+    });
+
+    /**
+     * Verifies that validators in the same provider namespace share cached results.
+     */
+    it('should share cached results within a provider namespace', async () => {
+      const validate = vi.fn().mockResolvedValue(true);
+      let registry: ValidatorCacheRegistry | null = null;
+      const wrapper = ({ children }: { children: React.ReactNode }) =>
+        createElement(ValidatorCacheProvider, null, children);
+
+      const { result } = renderHook(
+        () => {
+          registry = useValidatorCacheRegistry();
+          return {
+            first: useDebouncedValidator(validate, { delay: 100, namespace: 'email' }),
+            second: useDebouncedValidator(validate, { delay: 100, namespace: 'email' }),
+            other: useDebouncedValidator(validate, { delay: 100, namespace: 'username' }),
+          };
+        },
+        { wrapper }
+      );
+
+      const promise = result.current.first.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      await promise;
+
+      expect(await result.current.second.debouncedValidator('test')).toBe(true);
+      expect(validate).toHaveBeenCalledTimes(1);
+
+      const promise2 = result.current.other.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      await promise2;
+      expect(validate).toHaveBeenCalledTimes(2);
+
+      // Invalidated entries are validated again
+      registry!.invalidate('email', 'test');
+      const promise3 = result.current.second.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      await promise3;
+      expect(validate).toHaveBeenCalledTimes(3);
+    });
+
+    /**
+     * Verifies that an explicit cache option is used instead of the private cache.
+     */
+    it('should use the cache passed as an option', async () => {
+      const cache = createValidatorCache<unknown, ValidationResult>();
+      cache.set('test', { valid: false });
+      const validate = vi.fn().mockResolvedValue(true);
+      const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100, cache }));
+
+      expect(await result.current.debouncedValidator('test')).toBe(false);
+      expect(validate).not.toHaveBeenCalled();
+    });
+
     /**
      * Verifies that negate works correctly with cached results.
      */
@@ -244,6 +546,296 @@ describe('useDebouncedValidator', () => {
     });
   });
 
+  describe('Validation results', () => {
+    /**
+     * Verifies that rich results from the validate function are passed through debouncedCheck.
+     */
+    it('should resolve debouncedCheck with rich results', async () => {
+      const validate = vi
+        .fn()
+        .mockResolvedValue({ valid: false, message: 'Domain is blocked', code: 'blocked' });
+      const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+      let checked: ValidationResult | undefined;
+      await act(async () => {
+        const promise = result.current.debouncedCheck('test');
+        vi.advanceTimersByTime(100);
+        checked = await promise;
+      });
+
+      expect(checked).toEqual({ valid: false, message: 'Domain is blocked', code: 'blocked' });
+      expect(result.current.state.status).toBe('invalid');
+      expect(result.current.state.result).toEqual(checked);
+
+      // Cached results keep their details, and debouncedValidator still resolves a boolean
+      expect(await result.current.debouncedCheck('test')).toEqual(checked);
+      expect(await result.current.debouncedValidator('test')).toBe(false);
+      expect(validate).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Verifies that plain boolean validators resolve debouncedCheck with a result object.
+     */
+    it('should wrap boolean results for debouncedCheck', async () => {
+      const validate = vi.fn().mockResolvedValue(true);
+      const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+      const promise = result.current.debouncedCheck('test');
+      vi.advanceTimersByTime(100);
+
+      expect(await promise).toEqual({ valid: true });
+    });
+
+    /**
+     * Verifies that negate inverts only the validity of rich results.
+     */
+    it('should negate rich results and keep their details', async () => {
+      const validate = vi.fn().mockResolvedValue({ valid: true, code: 'registered' });
+      const { result } = renderHook(() =>
+        useDebouncedValidator(validate, { delay: 100, negate: true })
+      );
+
+      const promise = result.current.debouncedCheck('test');
+      vi.advanceTimersByTime(100);
+
+      expect(await promise).toEqual({ valid: false, code: 'registered' });
+    });
+  });
+
+  describe('Error retries', () => {
+    /**
+     * Verifies that thrown errors are not cached, so the same value is validated again.
+     */
+    it('should not cache errors', async () => {
+      const validate = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce(true);
+      const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+      const promise1 = result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      expect(await promise1).toBe(false);
+
+      const promise2 = result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      expect(await promise2).toBe(true);
+      expect(validate).toHaveBeenCalledTimes(2);
+    });
+
+    /**
+     * Verifies that negate does not turn a failed validation into success.
+     */
+    it('should not negate errors into success', async () => {
+      const validate = vi.fn().mockRejectedValue(new Error('Network error'));
+      const { result } = renderHook(() =>
+        useDebouncedValidator(validate, { delay: 100, negate: true })
+      );
+
+      const promise = result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+
+      expect(await promise).toBe(false);
+    });
+
+    /**
+     * Verifies that failed attempts are retried with exponential backoff.
+     */
+    it('should retry with exponential backoff', async () => {
+      const validate = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce(true);
+      const { result } = renderHook(() =>
+        useDebouncedValidator(validate, { delay: 100, maxAttempts: 3, retryDelay: 200 })
+      );
+
+      const promise = result.current.debouncedValidator('test');
+      await vi.advanceTimersByTimeAsync(100);
+      expect(validate).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(199);
+      expect(validate).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(validate).toHaveBeenCalledTimes(2);
+
+      // Second retry waits twice as long
+      await vi.advanceTimersByTimeAsync(399);
+      expect(validate).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(validate).toHaveBeenCalledTimes(3);
+
+      expect(await promise).toBe(true);
+    });
+
+    /**
+     * Verifies that onError and the error state are reported once all attempts have failed.
+     */
+    it('should call onError once attempts run out', async () => {
+      const error = new Error('Network error');
+      const validate = vi.fn().mockRejectedValue(error);
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        useDebouncedValidator(validate, {
+          delay: 100,
+          maxAttempts: 2,
+          retryDelay: 100,
+          onError,
+        })
+      );
+
+      await act(async () => {
+        const promise = result.current.debouncedValidator('test');
+        await vi.advanceTimersByTimeAsync(100);
+        expect(onError).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(100);
+        expect(await promise).toBe(false);
+      });
+
+      expect(validate).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(error, 'test');
+      expect(result.current.state.status).toBe('error');
+      expect(result.current.state.error).toBe(error);
+    });
+
+    /**
+     * Verifies that a pending retry is dropped when a newer value is scheduled.
+     */
+    it('should stop retrying when superseded', async () => {
+      const validate = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValue(true);
+      const { result } = renderHook(() =>
+        useDebouncedValidator(validate, { delay: 100, maxAttempts: 3, retryDelay: 1000 })
+      );
+
+      const promise1 = result.current.debouncedValidator('old');
+      await vi.advanceTimersByTimeAsync(100);
+      const promise2 = result.current.debouncedValidator('new');
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(validate).toHaveBeenCalledTimes(2);
+      expect(validate).toHaveBeenLastCalledWith('new', expect.any(AbortSignal));
+      expect(await promise1).toBe(true);
+      expect(await promise2).toBe(true);
+    });
+  });
+
+  describe('Cancellation', () => {
+    /**
+     * Verifies that an in-flight validation is aborted when a newer value is scheduled,
+     * and that its result never resolves the pending promises.
+     */
+    it('should abort superseded in-flight validation and ignore its result', async () => {
+      const signals: AbortSignal[] = [];
+      const resolvers: Array<(result: boolean) => void> = [];
+      const validate = vi.fn((_value: string, signal: AbortSignal) => {
+        signals.push(signal);
+        return new Promise<boolean>((resolve) => resolvers.push(resolve));
+      });
+      const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+      const promise1 = result.current.debouncedValidator('old');
+      vi.advanceTimersByTime(100);
+      expect(validate).toHaveBeenCalledWith('old', expect.any(AbortSignal));
+
+      const promise2 = result.current.debouncedValidator('new');
+      expect(signals[0].aborted).toBe(true);
+
+      // The stale request finishes first but must be ignored
+      resolvers[0](false);
+      vi.advanceTimersByTime(100);
+      expect(validate).toHaveBeenCalledWith('new', expect.any(AbortSignal));
+      resolvers[1](true);
+
+      expect(await promise1).toBe(true);
+      expect(await promise2).toBe(true);
+      expect(signals[1].aborted).toBe(false);
+    });
+
+    /**
+     * Verifies that aborted results are not cached.
+     */
+    it('should not cache results of aborted validations', async () => {
+      const resolvers: Array<(result: boolean) => void> = [];
+      const validate = vi.fn(() => new Promise<boolean>((resolve) => resolvers.push(resolve)));
+      const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+      result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      const promise = result.current.debouncedValidator('other');
+      resolvers[0](true);
+      vi.advanceTimersByTime(100);
+      resolvers[1](true);
+      await promise;
+
+      const promise2 = result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      resolvers[2](false);
+      expect(await promise2).toBe(false);
+      expect(validate).toHaveBeenCalledTimes(3);
+    });
+
+    /**
+     * Verifies that cancel aborts the in-flight validation and resolves pending promises with false.
+     */
+    it('should abort in-flight validation on cancel', async () => {
+      let signal: AbortSignal | undefined;
+      const validate = vi.fn((_value: string, s: AbortSignal) => {
+        signal = s;
+        return new Promise<boolean>(() => {});
+      });
+      const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+      const promise = result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+
+      act(() => {
+        result.current.cancel();
+      });
+
+      expect(signal?.aborted).toBe(true);
+      expect(await promise).toBe(false);
+    });
+
+    /**
+     * Verifies that cancel drops a pending debounce without calling validate.
+     */
+    it('should drop pending validation on cancel', async () => {
+      const validate = vi.fn().mockResolvedValue(true);
+      const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+      const promise = result.current.debouncedValidator('test');
+      result.current.cancel();
+      vi.advanceTimersByTime(100);
+
+      expect(validate).not.toHaveBeenCalled();
+      expect(await promise).toBe(false);
+    });
+
+    /**
+     * Verifies that the in-flight validation is aborted when the component unmounts.
+     */
+    it('should abort in-flight validation on unmount', async () => {
+      let signal: AbortSignal | undefined;
+      const validate = vi.fn((_value: string, s: AbortSignal) => {
+        signal = s;
+        return new Promise<boolean>(() => {});
+      });
+      const { result, unmount } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+      const promise = result.current.debouncedValidator('test');
+      vi.advanceTimersByTime(100);
+      unmount();
+
+      expect(signal?.aborted).toBe(true);
+      expect(await promise).toBe(false);
+    });
+  });
+
   describe('Error handling and edge cases', () => {
     /**
      * Verifies that validation errors are handled gracefully, returning false.
@@ -255,7 +847,7 @@ describe('useDebouncedValidator', () => {
       const promise = result.current.debouncedValidator('test');
       vi.advanceTimersByTime(100);
 
-      expect(validate).toHaveBeenCalledWith('test');
+      expect(validate).toHaveBeenCalledWith('test', expect.any(AbortSignal));
 
       expect(await promise).toBe(false);
     });
@@ -273,7 +865,7 @@ describe('useDebouncedValidator', () => {
       vi.runOnlyPendingTimers();
 
       expect(validate).toHaveBeenCalledTimes(1);
-      expect(validate).toHaveBeenCalledWith('test2');
+      expect(validate).toHaveBeenCalledWith('test2', expect.any(AbortSignal));
 
       expect(await promise1).toBe(true);
       expect(await promise2).toBe(true);
@@ -289,7 +881,7 @@ describe('useDebouncedValidator', () => {
       const promise = result.current.debouncedValidator('test');
       vi.advanceTimersByTime(100);
 
-      expect(validate).toHaveBeenCalledWith('test');
+      expect(validate).toHaveBeenCalledWith('test', expect.any(AbortSignal));
       expect(await promise).toBe(false);
     });
 
@@ -303,7 +895,7 @@ describe('useDebouncedValidator', () => {
       const promise = result.current.debouncedValidator('test');
       vi.advanceTimersByTime(100);
 
-      expect(validate).toHaveBeenCalledWith('test');
+      expect(validate).toHaveBeenCalledWith('test', expect.any(AbortSignal));
       expect(await promise).toBe(false);
     });
 
@@ -318,7 +910,7 @@ describe('useDebouncedValidator', () => {
 
       vi.runOnlyPendingTimers();
 
-      expect(validate).toHaveBeenCalledWith('test');
+      expect(validate).toHaveBeenCalledWith('test', expect.any(AbortSignal));
       expect(await promise).toBe(true);
     });
 
@@ -333,7 +925,7 @@ describe('useDebouncedValidator', () => {
 
       vi.advanceTimersByTime(10000);
 
-      expect(validate).toHaveBeenCalledWith('test');
+      expect(validate).toHaveBeenCalledWith('test', expect.any(AbortSignal));
       expect(await promise).toBe(true);
     });
 
@@ -357,21 +949,46 @@ describe('useDebouncedValidator', () => {
 
     describe('Reactive updates and cleanup', () => {
       /**
-       * Verifies that lastResult updates reactively after validation.
+       * Verifies that the status moves through debouncing and validating to valid.
        */
-      it('should update lastResult reactively', async () => {
-        const validate = vi.fn().mockResolvedValue(true);
+      it('should update state reactively through the validation lifecycle', async () => {
+        let resolveValidation: (result: boolean) => void = () => {};
+        const validate = vi.fn(
+          () => new Promise<boolean>((resolve) => (resolveValidation = resolve))
+        );
         const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
 
-        expect(result.current.lastResult).toBe(false);
+        expect(result.current.state).toEqual({
+          status: 'idle',
+          value: undefined,
+          updatedAt: null,
+          startedAt: null,
+          settledAt: null,
+        });
 
-        await act(async () => {
-          const promise = result.current.debouncedValidator('test');
+        let promise: Promise<boolean> = Promise.resolve(false);
+        act(() => {
+          promise = result.current.debouncedValidator('test');
+        });
+        expect(result.current.state.status).toBe('debouncing');
+        expect(result.current.state.value).toBe('test');
+
+        act(() => {
           vi.advanceTimersByTime(100);
+        });
+        expect(result.current.state.status).toBe('validating');
+        expect(result.current.state.startedAt).toBe(Date.now());
+
+        await act(async () => {
+          vi.advanceTimersByTime(50);
+          resolveValidation(true);
           await promise;
         });
 
-        expect(result.current.lastResult).toBe(true);
+        expect(result.current.state.status).toBe('valid');
+        expect(result.current.state.value).toBe('test');
+        expect(result.current.state.settledAt).toBe(Date.now());
+        expect(result.current.state.settledAt! - result.current.state.startedAt!).toBe(50);
       });
 
       /**
@@ -393,13 +1010,47 @@ describe('useDebouncedValidator', () => {
       });
 
       /**
-       * Verifies that setLastResult is not called when lastResult is already the same as the new result.
+       * Verifies that a false result is reported as invalid.
+       */
+      it('should report invalid status when validation returns false', async () => {
+        const validate = vi.fn().mockResolvedValue(false);
+        const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+        await act(async () => {
+          const promise = result.current.debouncedValidator('test');
+          vi.advanceTimersByTime(100);
+          await promise;
+        });
+
+        expect(result.current.state.status).toBe('invalid');
+        expect(validate).toHaveBeenCalledWith('test', expect.any(AbortSignal));
+      });
+
+      /**
+       * Verifies that a thrown error is reported as error, not as invalid.
        */
-      it('should not update lastResult if it is already the same', async () => {
-        const validate = vi.fn().mockResolvedValue(false); // Same as initial lastResult
+      it('should report error status when validation throws', async () => {
+        const validate = vi.fn().mockRejectedValue(new Error('Network error'));
         const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
 
-        expect(result.current.lastResult).toBe(false);
+        await act(async () => {
+          const promise = result.current.debouncedValidator('test');
+          vi.advanceTimersByTime(100);
+          await promise;
+        });
+
+        expect(result.current.state.status).toBe('error');
+        expect(result.current.state.value).toBe('test');
+      });
+
+      /**
+       * Verifies that cached results and default values update the status immediately.
+       */
+      it('should update state for cached results and default values', async () => {
+        const validate = vi.fn().mockResolvedValue(false);
+        const { result } = renderHook(() =>
+          useDebouncedValidator(validate, { delay: 100, defaultValue: '' })
+        );
 
         await act(async () => {
           const promise = result.current.debouncedValidator('test');
@@ -407,8 +1058,36 @@ describe('useDebouncedValidator', () => {
           await promise;
         });
 
-        expect(result.current.lastResult).toBe(false); // Should remain false
-        expect(validate).toHaveBeenCalledWith('test');
+        await act(async () => {
+          await result.current.debouncedValidator('');
+        });
+        expect(result.current.state.status).toBe('idle');
+        expect(result.current.state.value).toBe('');
+
+        await act(async () => {
+          await result.current.debouncedValidator('test');
+        });
+        expect(result.current.state.status).toBe('invalid');
+        expect(result.current.state.value).toBe('test');
+        expect(validate).toHaveBeenCalledTimes(1);
+      });
+
+      /**
+       * Verifies that cancel returns a pending status to idle.
+       */
+      it('should return to idle on cancel', () => {
+        const validate = vi.fn().mockResolvedValue(true);
+        const { result } = renderHook(() => useDebouncedValidator(validate, { delay: 100 }));
+
+        act(() => {
+          result.current.debouncedValidator('test');
+        });
+        expect(result.current.state.status).toBe('debouncing');
+
+        act(() => {
+          result.current.cancel();
+        });
+        expect(result.current.state.status).toBe('idle');
       });
 
       /**
@@ -427,23 +1106,42 @@ describe('useDebouncedValidator', () => {
       });
 
       /**
-       * Verifies that lastResult updates reactively with negate option.
+       * Verifies that unmounting with a pending value emits unmount-flush through onEvent.
        */
-      it('should update lastResult reactively with negate when result changes', async () => {
+      it('should emit unmount-flush when unmounting with a pending value', () => {
+        const onEvent = vi.fn();
+        const validate = vi.fn().mockResolvedValue(true);
+        const { result, unmount } = renderHook(() =>
+          useDebouncedValidator(validate, { delay: 100, onEvent })
+        );
+
+        act(() => {
+          result.current.debouncedValidator('test');
+        });
+        unmount();
+
+        expect(onEvent).toHaveBeenLastCalledWith(
+          expect.objectContaining({ type: 'unmount-flush', value: 'test', phase: 'debouncing' })
+        );
+        expect(result.current.getStats()).toMatchObject({ calls: 1, validations: 0 });
+      });
+
+      /**
+       * Verifies that the status reflects the negated result.
+       */
+      it('should update state reactively with negate when result changes', async () => {
         const validate = vi.fn().mockResolvedValue(false);
         const { result } = renderHook(() =>
           useDebouncedValidator(validate, { delay: 100, negate: true })
         );
 
-        expect(result.current.lastResult).toBe(false);
-
         await act(async () => {
           const promise = result.current.debouncedValidator('test');
           vi.advanceTimersByTime(100);
           await promise;
         });
 
-        expect(result.current.lastResult).toBe(true); // negate=true so false becomes true
+        expect(result.current.state.status).toBe('valid'); // negate=true so false becomes true
       });
     });
   });
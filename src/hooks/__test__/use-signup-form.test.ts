@@ -0,0 +1,201 @@
+import { renderHook, act } from '@testing-library/react';
+import { createElement } from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import {
+  ValidatorCacheProvider,
+  useValidatorCacheRegistry,
+} from '@/components/validator-cache-provider';
+
+import { useSignupForm } from '../use-signup-form';
+
+const inputs = {
+  name: 'Ann Lee',
+  username: 'ann_lee',
+  email: 'ann@example.com',
+  password: 'Secret-pass1',
+  confirmPassword: 'Secret-pass1',
+  newsletter: false,
+};
+
+/**
+ * Test suite for the submission pipeline of useSignupForm.
+ * Availability checks and the signup route are served by a fake `fetch`, where `taken` holds the
+ * registered values and `signup` answers submissions.
+ */
+describe('useSignupForm submission', () => {
+  let taken: Set<string>;
+  let signup: () => Promise<Response>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const signupRequests = () =>
+    fetchMock.mock.calls.filter(([url]) => new URL(url).pathname === '/api/signup');
+
+  const renderForm = (options?: Parameters<typeof useSignupForm>[0]) => {
+    const rendered = renderHook(() => useSignupForm(options));
+    act(() => {
+      for (const [field, value] of Object.entries(inputs)) {
+        rendered.result.current.form.setValue(field as keyof typeof inputs, value);
+      }
+    });
+    return rendered;
+  };
+
+  beforeEach(() => {
+    taken = new Set();
+    signup = async () => Response.json({ email: inputs.email }, { status: 201 });
+    fetchMock = vi.fn(async (url: URL | string) => {
+      const { pathname, searchParams } = new URL(url);
+      if (pathname === '/api/signup') {
+        return signup();
+      }
+      const value = searchParams.get('value') ?? '';
+      return Response.json(
+        taken.has(value)
+          ? { value, available: false, reason: 'registered' }
+          : { value, available: true }
+      );
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * Verifies that valid values are checked and submitted without waiting for the debounce delay.
+   */
+  it('should create the account with the submitted values', async () => {
+    const { result } = renderForm();
+
+    await act(() => result.current.submit());
+
+    expect(signupRequests()).toHaveLength(1);
+    expect(result.current.registeredEmail).toBe(inputs.email);
+    expect(result.current.submitPhase).toBeNull();
+  });
+
+  /**
+   * Verifies that a second submit while the first is still running is ignored.
+   */
+  it('should ignore double submits', async () => {
+    const { result } = renderForm();
+
+    await act(() => Promise.all([result.current.submit(), result.current.submit()]));
+
+    expect(signupRequests()).toHaveLength(1);
+  });
+
+  /**
+   * Verifies that the phase of a running submission is reported, and cleared once it settles.
+   */
+  it('should report the submission phase', async () => {
+    let respond = () => {};
+    signup = () =>
+      new Promise((resolve) => {
+        respond = () => resolve(Response.json({ email: inputs.email }, { status: 201 }));
+      });
+    const { result } = renderForm();
+
+    let submission: Promise<void> | undefined;
+    act(() => {
+      submission = result.current.submit();
+    });
+    expect(result.current.submitPhase).toBe('checking');
+
+    await vi.waitFor(() => expect(result.current.submitPhase).toBe('sending'));
+    await act(async () => {
+      respond();
+      await submission;
+    });
+    expect(result.current.submitPhase).toBeNull();
+  });
+
+  /**
+   * Verifies that an email registered after it was checked is caught before the submission,
+   * even though the cached answer still says it is available.
+   */
+  it('should check the submitted values again before sending them', async () => {
+    const onFieldErrors = vi.fn();
+    const { result } = renderForm({ onFieldErrors });
+    await act(() => result.current.form.trigger('email'));
+    taken.add(inputs.email);
+
+    await act(() => result.current.submit());
+
+    expect(signupRequests()).toHaveLength(0);
+    expect(result.current.form.formState.errors.email).toMatchObject({
+      type: 'availability',
+      message: 'This email is already registered. Sign in instead.',
+    });
+    expect(onFieldErrors).toHaveBeenCalledWith(['email']);
+  });
+
+  /**
+   * Verifies that email checks go through the provider's cache, so invalidating an email there
+   * checks it again.
+   */
+  it('should share email results through the ValidatorCacheProvider', async () => {
+    const { result } = renderHook(
+      () => ({ signup: useSignupForm(), registry: useValidatorCacheRegistry() }),
+      { wrapper: ({ children }) => createElement(ValidatorCacheProvider, null, children) }
+    );
+    act(() => {
+      result.current.signup.form.setValue('email', inputs.email);
+    });
+    await act(() => result.current.signup.form.trigger('email'));
+    expect(result.current.registry?.getCache('email-availability').get(inputs.email)).toEqual({
+      valid: true,
+    });
+
+    taken.add(inputs.email);
+    result.current.registry?.invalidate('email-availability', inputs.email);
+    await act(() => result.current.signup.form.trigger('email'));
+
+    expect(result.current.signup.form.formState.errors.email?.message).toBe(
+      'This email is already registered. Sign in instead.'
+    );
+  });
+
+  /**
+   * Verifies that forms validating at the same time each get the answer for their own email.
+   */
+  it('should check the email of every form separately', async () => {
+    taken.add('taken@example.com');
+    const first = renderHook(() => useSignupForm()).result;
+    const second = renderHook(() => useSignupForm()).result;
+    act(() => {
+      first.current.form.setValue('email', 'free@example.com');
+      second.current.form.setValue('email', 'taken@example.com');
+    });
+
+    await act(() =>
+      Promise.all([first.current.form.trigger('email'), second.current.form.trigger('email')])
+    );
+
+    expect(first.current.form.formState.errors.email).toBeUndefined();
+    expect(second.current.form.formState.errors.email?.message).toBe(
+      'This email is already registered. Sign in instead.'
+    );
+  });
+
+  /**
+   * Verifies that field errors returned by the server are set on their fields.
+   */
+  it('should map field errors from the server onto the form', async () => {
+    signup = async () =>
+      Response.json({ errors: { username: 'This username is already taken.' } }, { status: 409 });
+    const onFieldErrors = vi.fn();
+    const { result } = renderForm({ onFieldErrors });
+
+    await act(() => result.current.submit());
+
+    expect(result.current.registeredEmail).toBeNull();
+    expect(result.current.form.formState.errors.username).toMatchObject({
+      type: 'server',
+      message: 'This username is already taken.',
+    });
+    expect(onFieldErrors).toHaveBeenCalledWith(['username']);
+  });
+});
@@ -0,0 +1,142 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createSignupDraftStore } from '@/lib/signup-draft';
+
+import { useSignupWizard } from '../use-signup-wizard';
+
+const inputs = {
+  name: 'Ann Lee',
+  username: 'ann_lee',
+  email: 'ann@example.com',
+  password: 'Secret-pass1',
+  confirmPassword: 'Secret-pass1',
+  newsletter: false,
+};
+
+/**
+ * Test suite for useSignupWizard.
+ * Availability checks and the signup route are served by a fake `fetch`. Checks wait for
+ * `release` while `held` is set, and `signup` answers submissions.
+ */
+describe('useSignupWizard', () => {
+  let taken: Set<string>;
+  let held: Promise<void> | null;
+  let release: () => void;
+  let signup: () => Promise<Response>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const availabilityRequests = () =>
+    fetchMock.mock.calls.filter(([url]) => new URL(url).pathname.startsWith('/api/availability/'));
+
+  const renderWizard = () => {
+    const rendered = renderHook(() => useSignupWizard());
+    act(() => {
+      for (const [field, value] of Object.entries(inputs)) {
+        rendered.result.current.form.setValue(field as keyof typeof inputs, value);
+      }
+    });
+    return rendered;
+  };
+
+  beforeEach(() => {
+    taken = new Set();
+    held = null;
+    release = () => {};
+    signup = async () => Response.json({ email: inputs.email }, { status: 201 });
+    fetchMock = vi.fn(async (url: URL | string) => {
+      const { pathname, searchParams } = new URL(url);
+      if (pathname === '/api/signup') {
+        return signup();
+      }
+      await held;
+      const value = searchParams.get('value') ?? '';
+      return Response.json(
+        taken.has(value)
+          ? { value, available: false, reason: 'registered' }
+          : { value, available: true }
+      );
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    window.localStorage.clear();
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * Verifies that next runs the pending availability checks at once and only moves on once
+   * they have settled.
+   */
+  it('should wait for pending checks before moving to the next step', async () => {
+    held = new Promise((resolve) => {
+      release = resolve;
+    });
+    const { result } = renderWizard();
+
+    let advancing: Promise<void> | undefined;
+    act(() => {
+      advancing = result.current.next();
+    });
+    await vi.waitFor(() => expect(availabilityRequests()).toHaveLength(2));
+    expect(result.current.step).toBe('account');
+    expect(result.current.advancing).toBe(true);
+
+    await act(async () => {
+      release();
+      await advancing;
+    });
+
+    expect(result.current.step).toBe('profile');
+    expect(result.current.advancing).toBe(false);
+  });
+
+  /**
+   * Verifies that next stays on the step when a check finds a value taken.
+   */
+  it('should stay on the step when a field is invalid', async () => {
+    taken.add(inputs.email);
+    const { result } = renderWizard();
+
+    await act(() => result.current.next());
+
+    expect(result.current.step).toBe('account');
+    expect(result.current.form.formState.errors.email?.message).toBe(
+      'This email is already registered. Sign in instead.'
+    );
+  });
+
+  /**
+   * Verifies that a saved draft is restored on reload, without passwords.
+   */
+  it('should restore the draft on reload', () => {
+    createSignupDraftStore(window.localStorage).save(inputs);
+
+    const { result } = renderHook(() => useSignupWizard());
+
+    expect(result.current.form.getValues()).toEqual({
+      ...inputs,
+      password: '',
+      confirmPassword: '',
+    });
+    expect(result.current.step).toBe('account');
+  });
+
+  /**
+   * Verifies that a field error from the server shows the step of that field.
+   */
+  it('should go back to the step of a field the server rejected', async () => {
+    signup = async () =>
+      Response.json({ errors: { username: 'This username is already taken.' } }, { status: 409 });
+    const { result } = renderWizard();
+    await act(() => result.current.next());
+    await act(() => result.current.next());
+    expect(result.current.isLastStep).toBe(true);
+
+    await act(() => result.current.submit());
+
+    expect(result.current.step).toBe('account');
+    expect(result.current.form.formState.errors.username?.type).toBe('server');
+  });
+});
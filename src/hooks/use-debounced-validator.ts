@@ -1,16 +1,25 @@
 'use client';
 
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-
-type ValidateResult = boolean | Promise<boolean>;
-
-type ValidateFn<T> = (value: T) => ValidateResult;
-
-type Options<T> = {
-  delay?: number;
-  negate?: boolean;
-  defaultValue?: T | undefined;
-  maxCacheSize?: number;
+import { useEffect, useState } from 'react';
+
+import { useValidatorCacheRegistry } from '@/components/validator-cache-provider';
+import {
+  createDebouncedValidator,
+  type DebouncedValidatorOptions,
+  type ValidateFn,
+} from '@/lib/debounced-validator';
+
+import { useValidatorState } from './use-validator-state';
+
+export type {
+  ValidationState,
+  ValidationStatus,
+  ValidatorEvent,
+  ValidatorStats,
+} from '@/lib/debounced-validator';
+
+type Options<T> = DebouncedValidatorOptions<T> & {
+  namespace?: string;
 };
 
 /**
@@ -23,37 +32,50 @@ type Options<T> = {
  *
  * Key features:
  * - Debounces validations within the specified delay to reduce unnecessary operations.
- * - Caches the last result for identical values to improve performance.
+ *   Supports leading calls and `maxWait` for steady typing, or a delay that adapts to the typing cadence.
+ * - Caches results per value with least-recently-used eviction and optional expiry.
+ * - Shares cached results across instances through a `ValidatorCacheProvider` namespace.
  * - Batches multiple calls during the debounce period and resolves all with the final result.
  * - Prevents race conditions by ensuring only the latest value is processed.
+ * - Aborts in-flight validations via `AbortSignal` when they are superseded, cancelled or unmounted.
+ * - Retries thrown errors with exponential backoff instead of treating them as invalid.
  * - Includes robust error handling and automatic cleanup to prevent memory leaks.
  * - Supports negation of results and default values for common use cases.
  *
  * @typeParam T - The type of the value to be validated. Defaults to `string`.
  * @param validate - A function that performs the validation on the value. It can be synchronous or asynchronous.
- *   The function should return `true` for valid values and `false` otherwise.
- * @param options - Configuration options for the hook.
- * @param options.delay - The debounce delay in milliseconds. Defaults to 500ms.
- *   Shorter delays improve responsiveness but may increase computation.
- * @param options.negate - If `true`, negates the result of the validate function. Useful for inverting logic. Defaults to `false`.
- * @param options.defaultValue - A default value that always returns `true` immediately without calling the validate function.
- *   Useful for skipping validations on initial or placeholder values.
- * @param options.maxCacheSize - The maximum number of cached results. Defaults to 100.
- *   Prevents memory leaks in long-running applications by limiting cache size.
+ *   The function should return `true` for valid values and `false` otherwise, or a `ValidationResult`
+ *   (`{ valid, message, code }`) to explain why a value is invalid. It receives an `AbortSignal`
+ *   as the second argument, which is aborted when a newer value is scheduled, `cancel` is called or the
+ *   component unmounts. Pass it to `fetch` to cancel stale requests.
+ * @param options - Configuration options for the hook. Accepts every option of
+ *   {@link createDebouncedValidator} (`delay`, `adaptiveDelay`, `leading`, `maxWait`, `negate`, `defaultValue`,
+ *   `maxCacheSize`, `cacheTtl`, `getCacheKey`, `cache`, `maxAttempts`, `retryDelay`, `backoffFactor`,
+ *   `maxRetryDelay`, `getRetryDelay`, `onError` and `onEvent`), plus:
+ * @param options.namespace - Shares the cache of the nearest `ValidatorCacheProvider` with every other
+ *   validator using the same namespace. Without a provider, the hook's private cache is used.
+ *   An explicit `cache` option takes precedence.
  * @returns An object containing:
  *   - `debouncedValidator`: A debounced function that takes a value of type `T` and returns a `Promise<boolean>`.
  *     Call this function to perform the debounced validation.
- *   - `lastResult`: The most recent result of the validation, updated reactively.
+ *   - `debouncedCheck`: Like `debouncedValidator`, but resolves with the full `ValidationResult`.
+ *   - `state`: The current {@link ValidationState}: the status, the value it applies to and timestamps.
+ *   - `flush`: Runs the pending validation now instead of waiting for the delay, e.g. on blur or submit.
+ *     Resolves with the result of the pending or in-flight validation, or `undefined` if there is none.
+ *   - `cancel`: Drops the pending validation, aborts any in-flight one and resolves pending promises with `false`.
+ *   - `reset`: Cancels like `cancel`, clears the cache (shared caches included) and returns the state to `idle`.
+ *   - `invalidate`: Removes the cached result of one value, so that its next call validates it again.
+ *   - `getStats`: Returns the running {@link ValidatorStats} counters (calls, cache hits, validate calls avoided…).
  *
  * @example
  * ```typescript
  * import { useDebouncedValidator } from './hooks/use-debounced-validator';
  *
  * function EmailChecker() {
- *   const { debouncedValidator, lastResult } = useDebouncedValidator(
- *     async (email: string) => {
+ *   const { debouncedValidator, state } = useDebouncedValidator(
+ *     async (email: string, signal: AbortSignal) => {
  *       // Simulate API call to check email availability
- *       const response = await fetch(`/api/check-email?email=${email}`);
+ *       const response = await fetch(`/api/check-email?email=${email}`, { signal });
  *       return response.ok;
  *     },
  *     { delay: 300, defaultValue: '' }
@@ -67,7 +89,12 @@ type Options<T> = {
  *   return (
  *     <div>
  *       <input onChange={handleInputChange} placeholder="Enter email" />
- *       <p>Available: {lastResult ? 'Yes' : 'No'}</p>
+ *       <p>
+ *         {state.status === 'validating' && 'Checking…'}
+ *         {state.status === 'valid' && 'Available'}
+ *         {state.status === 'invalid' && 'Taken'}
+ *         {state.status === 'error' && 'Could not verify'}
+ *       </p>
  *     </div>
  *   );
  * }
@@ -75,115 +102,54 @@ type Options<T> = {
  *
  * @remarks
  * - The hook automatically cleans up timers and resolves pending promises on unmount to prevent memory leaks.
- * - If the validate function throws an error, it logs the error and returns `false`.
- * - For performance, identical values are cached and returned immediately if no debounce is pending.
- * - Cache size is limited to prevent memory leaks; oldest entries are removed when the limit is exceeded.
- * - Be cautious with object values for `T`; equality checks use `===`, which may not work as expected for objects.
- * - This hook is optimized for React and uses refs to avoid unnecessary re-renders.
+ *   If a value was still debouncing or validating, an `unmount-flush` event is emitted through `onEvent`.
+ * - Results of aborted validations are discarded: they are not cached and never resolve pending promises.
+ * - If the validate function throws an error, it is retried with exponential backoff up to `maxAttempts`.
+ *   When every attempt fails, `onError` is called, the status becomes `error` and it returns `false`
+ *   regardless of `negate`. Errors are never cached, so the next call for the same value tries again.
+ * - For performance, cached values are returned immediately. Like any newer value, they supersede
+ *   an older one that is still debouncing or in flight, whose calls resolve with the cached result.
+ * - Cache size is limited to prevent memory leaks; least recently used entries are removed when the limit is exceeded.
+ * - Cache keys are compared by identity unless `getCacheKey` is provided, so object values for `T`
+ *   only hit the cache for the same reference. `defaultValue` is always compared with `Object.is`.
+ * - The hook is a thin wrapper over {@link createDebouncedValidator}; the validator instance lives as long as
+ *   the component and its state is read with `useValidatorState`. The latest `validate` and options
+ *   are used for every call, except `maxCacheSize` and `cacheTtl`, which only apply on mount.
  */
 export function useDebouncedValidator<T = string>(
   validate: ValidateFn<T>,
   options: Options<T> = {}
 ) {
-  const memoizedOptions = useMemo(() => options, [options]);
-  const { delay = 500, negate = false, defaultValue, maxCacheSize = 100 } = memoizedOptions;
-
-  const [lastResult, setLastResult] = useState(false);
-  const cacheRef = useRef(new Map<T, boolean>());
-  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const pendingResolversRef = useRef<Array<(result: boolean) => void>>([]);
-  const pendingValueRef = useRef<T | undefined>(undefined);
-
-  const flushResolvers = (result: boolean) => {
-    const resolvers = pendingResolversRef.current.splice(0);
-    resolvers.forEach((resolve) => resolve(result));
-  };
-
-  const performValidation = useCallback(
-    async (currentValue: T) => {
-      try {
-        const rawResult = await validate(currentValue);
-        const result = Boolean(rawResult);
-
-        // Limit cache size
-        if (cacheRef.current.size >= maxCacheSize) {
-          const firstKey = cacheRef.current.keys().next().value;
-          if (firstKey !== undefined) {
-            cacheRef.current.delete(firstKey);
-          }
-        }
-
-        cacheRef.current.set(currentValue, result);
-        const finalResult = negate ? !result : result;
-        if (lastResult !== finalResult) {
-          setLastResult(finalResult);
-        }
-        flushResolvers(finalResult);
-      } catch {
-        const result = false;
-
-        // Limit cache size
-        if (cacheRef.current.size >= maxCacheSize) {
-          const firstKey = cacheRef.current.keys().next().value;
-          if (firstKey !== undefined) {
-            cacheRef.current.delete(firstKey);
-          }
-        }
-
-        cacheRef.current.set(currentValue, result);
-        const finalResult = negate ? !result : result;
-        if (lastResult !== finalResult) {
-          setLastResult(finalResult);
-        }
-        flushResolvers(finalResult);
-      }
-    },
-    [validate, negate, lastResult, maxCacheSize]
+  const { namespace, ...validatorOptions } = options;
+  const registry = useValidatorCacheRegistry();
+  const cache =
+    validatorOptions.cache ??
+    (namespace !== undefined && registry ? registry.getCache(namespace) : undefined);
+
+  const [validator] = useState(() =>
+    createDebouncedValidator<T>(validate, { ...validatorOptions, cache })
   );
 
-  const debouncedValidator = useCallback(
-    (value: T): Promise<boolean> => {
-      if (Object.is(value, defaultValue)) {
-        return Promise.resolve(true);
-      }
-
-      if (cacheRef.current.has(value)) {
-        const cachedResult = cacheRef.current.get(value)!;
-        return Promise.resolve(negate ? !cachedResult : cachedResult);
-      }
-
-      return new Promise<boolean>((resolve) => {
-        pendingResolversRef.current.push(resolve);
-        pendingValueRef.current = value;
-
-        if (timerRef.current) {
-          clearTimeout(timerRef.current);
-        }
-
-        timerRef.current = setTimeout(async () => {
-          timerRef.current = null;
-          const currentValue = pendingValueRef.current!;
-
-          if (currentValue !== value) {
-            return;
-          }
-
-          await performValidation(currentValue);
-        }, delay);
-      });
-    },
-    [delay, defaultValue, performValidation, negate]
-  );
+  useEffect(() => {
+    validator.configure(validate, { ...validatorOptions, cache });
+  });
 
   useEffect(() => {
     return () => {
-      if (timerRef.current) {
-        clearTimeout(timerRef.current);
-        timerRef.current = null;
-      }
-      flushResolvers(false);
+      validator.dispose();
     };
-  }, []);
-
-  return { debouncedValidator, lastResult } as const;
+  }, [validator]);
+
+  const state = useValidatorState(validator);
+
+  return {
+    debouncedValidator: validator.validate,
+    debouncedCheck: validator.check,
+    state,
+    flush: validator.flush,
+    cancel: validator.cancel,
+    reset: validator.reset,
+    invalidate: validator.invalidate,
+    getStats: validator.getStats,
+  } as const;
 }
@@ -1,42 +1,308 @@
 'use client';
 
 import { valibotResolver } from '@hookform/resolvers/valibot';
-import { useForm } from 'react-hook-form';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
 import * as v from 'valibot';
 
+import { useLocale } from '@/components/locale-provider';
+import {
+  checkEmailAvailability,
+  checkUsernameAvailability,
+  getAvailabilityRetryDelay,
+  RateLimitError,
+} from '@/lib/availability-client';
+import { localizeAvailability } from '@/lib/availability-contract';
+import { normalizeEmail } from '@/lib/email-normalization';
+import { message } from '@/lib/i18n';
+import { estimatePasswordStrength } from '@/lib/password-strength';
+import { submitSignup } from '@/lib/signup-client';
+import {
+  confirmPasswordSchema,
+  emailSchema,
+  nameSchema,
+  passwordSchema,
+  passwordsMatch,
+  usernameSchema,
+  type SignupField,
+  type SignupFieldErrors,
+} from '@/lib/signup-schema';
+import { signupSteps, stepFields, type SignupStep } from '@/lib/signup-steps';
+import { checkResultAsync } from '@/lib/valibot-actions';
+
 import { useDebouncedValidator } from './use-debounced-validator';
 
-export const inputSchema = (debouncedValidator: (value: string) => Promise<boolean>) =>
-  v.objectAsync({
-    name: v.pipe(v.string(), v.minLength(1, 'This field is required')),
-    email: v.pipeAsync(
-      v.string(),
-      v.minLength(1, 'This field is required'),
-      v.email('Please enter a valid email format'),
-      v.checkAsync(debouncedValidator, 'This email is not available')
+import type { ValidationResult } from '@/lib/validation-result';
+
+const availabilityOptions = {
+  adaptiveDelay: { minDelay: 200, maxDelay: 1000 },
+  maxWait: 2000,
+  maxAttempts: 3,
+  getRetryDelay: getAvailabilityRetryDelay,
+  cacheTtl: 30_000,
+};
+
+/**
+ * Builds the schema of every wizard step around the username and email availability checks,
+ * which come from a `useDebouncedValidator` each, so that every form debounces its own values
+ * while their caches are shared through the `ValidatorCacheProvider`. Each schema covers the
+ * fields of its step in `stepFields`.
+ */
+export const createStepSchemas = (
+  checkUsername: (username: string) => Promise<ValidationResult>,
+  checkEmail: (email: string) => Promise<ValidationResult>
+) =>
+  ({
+    account: v.pipeAsync(
+      v.objectAsync({
+        username: v.pipeAsync(
+          usernameSchema,
+          checkResultAsync(
+            checkUsername,
+            message('usernameNotAvailable'),
+            localizeAvailability('username')
+          )
+        ),
+        email: v.pipeAsync(
+          emailSchema,
+          checkResultAsync(checkEmail, message('emailNotAvailable'), localizeAvailability('email'))
+        ),
+        password: passwordSchema,
+        confirmPassword: confirmPasswordSchema,
+      }),
+      v.forward(
+        v.partialCheck(
+          [['password'], ['confirmPassword']],
+          passwordsMatch,
+          message('passwordMismatch')
+        ),
+        ['confirmPassword']
+      )
     ),
-  });
+    profile: v.object({ name: nameSchema }),
+    preferences: v.object({ newsletter: v.boolean() }),
+  }) satisfies Record<SignupStep, v.GenericSchema | v.GenericSchemaAsync>;
 
-export type Inputs = v.InferOutput<ReturnType<typeof inputSchema>>;
+export type StepSchemas = ReturnType<typeof createStepSchemas>;
 
-export function useSignupForm() {
-  const isValidEmail = async (value: string) => {
-    const url = new URL('/api', window.location.origin);
-    url.searchParams.set('email', value);
-    const response = await fetch(url);
-    const data = (await response.json()) as { result: boolean };
-    return !data.result;
-  };
+/**
+ * The schema of the whole form: every step at once, as submitted.
+ */
+export const createInputSchema = (steps: StepSchemas) =>
+  v.intersectAsync([steps.account, steps.profile, steps.preferences]);
 
-  const { debouncedValidator } = useDebouncedValidator<string>(isValidEmail);
+export type Inputs = v.InferOutput<ReturnType<typeof createInputSchema>>;
 
-  const schema = inputSchema(debouncedValidator);
+const signupFields = signupSteps.flatMap((step) => stepFields[step]);
+
+/**
+ * What a submission is doing: `checking` settles the availability checks and validates the
+ * submitted values, and `sending` waits for the server to create the account.
+ */
+export type SubmitPhase = 'checking' | 'sending';
+
+type Options = {
+  onFieldErrors?: (fields: SignupField[]) => void;
+};
+
+/**
+ * Sets up the signup form, its availability checks and its submission.
+ *
+ * The whole form is validated with one schema, so a wizard step validates its fields with
+ * `form.trigger(stepFields[step])`, which only reports their errors. `onFieldErrors` is called
+ * with the invalid fields when a submission fails validation on the client or the server, e.g. to go back to the step that shows them.
+ *
+ * `submit` ignores clicks while a submission is running and reports its progress as
+ * `submitPhase`. Before validating, it runs the pending availability checks at once, and the
+ * username and email are checked again, without debounce or cache, right before they are sent.
+ */
+export function useSignupForm({ onFieldErrors }: Options = {}) {
+  const { locale } = useLocale();
+
+  const usernameAvailability = useDebouncedValidator(checkUsernameAvailability, {
+    namespace: 'username-availability',
+    ...availabilityOptions,
+    getCacheKey: (username) => username.trim().toLowerCase(),
+  });
+  const emailAvailability = useDebouncedValidator(checkEmailAvailability, {
+    namespace: 'email-availability',
+    ...availabilityOptions,
+    // Match the server, which treats every normalized form of an email as the same address
+    getCacheKey: (email) => normalizeEmail(email, { gmailDots: true }),
+  });
+  const { debouncedCheck: checkUsername } = usernameAvailability;
+  const { debouncedCheck: checkEmail } = emailAvailability;
+  const stepSchemas = useMemo(
+    () => createStepSchemas(checkUsername, checkEmail),
+    [checkUsername, checkEmail]
+  );
+  const inputSchema = useMemo(() => createInputSchema(stepSchemas), [stepSchemas]);
 
   const form = useForm({
     mode: 'all',
-    resolver: valibotResolver(schema, {}, { mode: 'async' }),
-    defaultValues: { name: '', email: '' },
+    resolver: valibotResolver(inputSchema, { lang: locale }, { mode: 'async' }),
+    defaultValues: {
+      name: '',
+      username: '',
+      email: '',
+      password: '',
+      confirmPassword: '',
+      newsletter: false,
+    },
   });
 
-  return form;
+  const password = useWatch({ control: form.control, name: 'password' });
+  const passwordStrength = password ? estimatePasswordStrength(password) : null;
+
+  // A confirmation the user has already typed may stop or start matching
+  const revalidateConfirmation = () => {
+    if (form.getFieldState('confirmPassword').isDirty) {
+      form.trigger('confirmPassword');
+    }
+  };
+
+  // Errors keep the language they were created in, so validate them again in the new one.
+  // Errors from the server are left alone, as the form cannot reproduce them.
+  useEffect(() => {
+    const { errors } = form.formState;
+    const fields = signupFields.filter((field) => errors[field] && errors[field].type !== 'server');
+    if (fields.length > 0) {
+      form.trigger(fields);
+    }
+  }, [form, locale]);
+
+  const [registeredEmail, setRegisteredEmail] = useState<string | null>(null);
+
+  /**
+   * Runs the availability checks of `fields` now instead of after their debounce delay, and
+   * resolves once they have settled. Values that break the format rules are not checked.
+   */
+  const settleChecks = async (fields: SignupField[]) => {
+    const { username, email } = form.getValues();
+    const checks: Promise<unknown>[] = [];
+    if (fields.includes('username') && v.is(usernameSchema, username)) {
+      checks.push(checkUsername(username));
+      usernameAvailability.flush();
+    }
+    if (fields.includes('email') && v.is(emailSchema, email)) {
+      checks.push(checkEmail(email));
+      emailAvailability.flush();
+    }
+    await Promise.allSettled(checks);
+  };
+
+  // Shows field errors from the server or from the last availability check, and their step
+  const showFieldErrors = (errors: SignupFieldErrors, type: 'server' | 'availability') => {
+    const fields = Object.keys(errors) as SignupField[];
+    onFieldErrors?.(fields);
+    for (const field of fields) {
+      form.setError(field, { type, message: errors[field] }, { shouldFocus: true });
+    }
+  };
+
+  /**
+   * Checks the exact values being submitted again. A check superseded by a newer value resolves
+   * with the answer for that value, and a cached answer may be outdated, so neither proves that
+   * the submitted values are available. Checks that fail are left to the server, which checks
+   * again anyway.
+   */
+  const recheckAvailability = async ({ username, email }: Inputs) => {
+    const [usernameResult, emailResult] = await Promise.allSettled([
+      checkUsernameAvailability(username),
+      checkEmailAvailability(email),
+    ]);
+
+    const errors: SignupFieldErrors = {};
+    if (usernameResult.status === 'fulfilled' && !usernameResult.value.valid) {
+      errors.username =
+        localizeAvailability('username')(usernameResult.value, locale) ??
+        usernameResult.value.message;
+      // Do not let the cached answer clear the error on the next validation
+      usernameAvailability.invalidate(username);
+    }
+    if (emailResult.status === 'fulfilled' && !emailResult.value.valid) {
+      errors.email =
+        localizeAvailability('email')(emailResult.value, locale) ?? emailResult.value.message;
+      emailAvailability.invalidate(email);
+    }
+    return errors;
+  };
+
+  const submitting = useRef(false);
+  const [submitPhase, setSubmitPhase] = useState<SubmitPhase | null>(null);
+
+  const handleSubmit = form.handleSubmit(
+    async (inputs) => {
+      try {
+        const unavailable = await recheckAvailability(inputs);
+        if (Object.keys(unavailable).length > 0) {
+          showFieldErrors(unavailable, 'availability');
+          return;
+        }
+
+        setSubmitPhase('sending');
+        const result = await submitSignup(inputs);
+
+        // The cached answers for the submitted values are stale once they have been registered
+        usernameAvailability.invalidate(inputs.username);
+        emailAvailability.invalidate(inputs.email);
+
+        if (!result.ok) {
+          showFieldErrors(result.errors, 'server');
+          return;
+        }
+
+        setRegisteredEmail(result.email);
+      } catch (error) {
+        // Keyed by type, so the message follows the locale
+        form.setError('root.server', {
+          type: error instanceof RateLimitError ? 'rate_limit' : 'server',
+        });
+      }
+    },
+    (errors) => {
+      onFieldErrors?.(signupFields.filter((field) => errors[field]));
+    }
+  );
+
+  const submit = async (event?: React.BaseSyntheticEvent) => {
+    event?.preventDefault();
+    if (submitting.current) {
+      return;
+    }
+    submitting.current = true;
+    setSubmitPhase('checking');
+    try {
+      // Validate the newest values without waiting for their debounce delay
+      await settleChecks(signupFields);
+      await handleSubmit(event);
+    } finally {
+      submitting.current = false;
+      setSubmitPhase(null);
+    }
+  };
+
+  // Suggestions were available when they were made, but check again in case that changed
+  const chooseUsername = (username: string) => {
+    form.setValue('username', username, {
+      shouldDirty: true,
+      shouldTouch: true,
+      shouldValidate: true,
+    });
+  };
+
+  return {
+    form,
+    submit,
+    submitPhase,
+    registeredEmail,
+    emailValidation: emailAvailability.state,
+    flushEmail: emailAvailability.flush,
+    usernameValidation: usernameAvailability.state,
+    flushUsername: usernameAvailability.flush,
+    chooseUsername,
+    passwordStrength,
+    revalidateConfirmation,
+    settleChecks,
+  };
 }
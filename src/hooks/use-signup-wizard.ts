@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { createSignupDraftStore } from '@/lib/signup-draft';
+import { getFieldStep, signupSteps, stepFields, type SignupStep } from '@/lib/signup-steps';
+
+import { useSignupForm } from './use-signup-form';
+
+import type { SignupField } from '@/lib/signup-schema';
+
+/**
+ * Splits the signup form into the steps of `signupSteps`, on top of {@link useSignupForm}.
+ *
+ * `next` waits for the pending availability checks of the current step and only moves on when
+ * its fields are valid, while `back` always moves back. Values are kept across steps, and the
+ * non-sensitive ones are saved as a draft in `localStorage`, restored on reload and cleared once
+ * the account has been created. The wizard always restarts at the first step, since passwords
+ * are never saved and have to be entered again.
+ */
+export function useSignupWizard() {
+  const [step, setStep] = useState<SignupStep>(signupSteps[0]);
+  const [advancing, setAdvancing] = useState(false);
+  const [drafts] = useState(() =>
+    typeof window !== 'undefined' ? createSignupDraftStore(window.localStorage) : null
+  );
+
+  // Show the earliest step with an error, e.g. when the server rejects a field of a previous step
+  const showFieldErrors = (fields: SignupField[]) => {
+    const steps = fields.map((field) => signupSteps.indexOf(getFieldStep(field)));
+    if (steps.length > 0) {
+      setStep(signupSteps[Math.min(...steps)]);
+    }
+  };
+
+  const signup = useSignupForm({ onFieldErrors: showFieldErrors });
+  const { form, registeredEmail, settleChecks } = signup;
+
+  useEffect(() => {
+    const draft = drafts?.load();
+    if (draft) {
+      form.reset({ ...form.getValues(), ...draft });
+    }
+  }, [drafts, form]);
+
+  useEffect(() => {
+    if (!drafts || registeredEmail) {
+      return;
+    }
+    const subscription = form.watch((values) => drafts.save(values));
+    return () => subscription.unsubscribe();
+  }, [drafts, form, registeredEmail]);
+
+  useEffect(() => {
+    if (registeredEmail) {
+      drafts?.clear();
+    }
+  }, [drafts, registeredEmail]);
+
+  const index = signupSteps.indexOf(step);
+
+  const next = async () => {
+    const fields = stepFields[step];
+    setAdvancing(true);
+    try {
+      await settleChecks(fields);
+      if (await form.trigger(fields, { shouldFocus: true })) {
+        setStep(signupSteps[Math.min(index + 1, signupSteps.length - 1)]);
+      }
+    } finally {
+      setAdvancing(false);
+    }
+  };
+
+  const back = () => {
+    setStep(signupSteps[Math.max(index - 1, 0)]);
+  };
+
+  return {
+    ...signup,
+    step,
+    index,
+    isLastStep: index === signupSteps.length - 1,
+    advancing,
+    next,
+    back,
+  };
+}
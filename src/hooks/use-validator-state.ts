@@ -0,0 +1,13 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+
+import type { DebouncedValidator } from '@/lib/debounced-validator';
+
+/**
+ * Subscribes to the state of a validator created outside of React, such as the `validator`
+ * of a `debouncedCheckAsync` action, and re-renders whenever it changes.
+ */
+export function useValidatorState<T>(validator: DebouncedValidator<T>) {
+  return useSyncExternalStore(validator.subscribe, validator.getState, validator.getState);
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+
+import { createAdaptiveDelay } from '../adaptive-delay';
+
+/**
+ * Test suite for createAdaptiveDelay.
+ * The delay follows the typing cadence and stretches for slow or failing validations.
+ */
+describe('createAdaptiveDelay', () => {
+  /**
+   * Verifies that the fallback is used, within the bounds, until a gap has been recorded.
+   */
+  it('should use the clamped fallback without samples', () => {
+    const adaptive = createAdaptiveDelay({ minDelay: 200, maxDelay: 800 });
+
+    expect(adaptive.getDelay(500)).toBe(500);
+    expect(adaptive.getDelay(2000)).toBe(800);
+
+    adaptive.recordCall(0);
+    expect(adaptive.getDelay(100)).toBe(200);
+  });
+
+  /**
+   * Verifies that the delay is twice the median gap between calls.
+   */
+  it('should follow the median gap between calls', () => {
+    const adaptive = createAdaptiveDelay({ minDelay: 100, maxDelay: 1000 });
+
+    [0, 100, 220, 300, 700].forEach((now) => adaptive.recordCall(now));
+
+    // Gaps are 100, 120, 80 and 400, so the median is 110
+    expect(adaptive.getDelay(500)).toBe(220);
+  });
+
+  /**
+   * Verifies that pauses longer than maxDelay are not treated as typing gaps.
+   */
+  it('should ignore pauses between bursts', () => {
+    const adaptive = createAdaptiveDelay({ minDelay: 100, maxDelay: 1000 });
+
+    adaptive.recordCall(0);
+    adaptive.recordCall(100);
+    adaptive.recordCall(5000);
+
+    expect(adaptive.getDelay(500)).toBe(200);
+  });
+
+  /**
+   * Verifies that only the most recent gaps are considered.
+   */
+  it('should keep only sampleSize gaps', () => {
+    const adaptive = createAdaptiveDelay({ minDelay: 100, maxDelay: 1000, sampleSize: 2 });
+
+    [0, 400, 800, 900, 1000].forEach((now) => adaptive.recordCall(now));
+
+    expect(adaptive.getDelay(500)).toBe(200);
+  });
+
+  /**
+   * Verifies that slow validations stretch the delay by half their average duration.
+   */
+  it('should stretch the delay for slow validations', () => {
+    const adaptive = createAdaptiveDelay({ minDelay: 100, maxDelay: 1000 });
+    adaptive.recordCall(0);
+    adaptive.recordCall(100);
+
+    adaptive.recordValidation(200, false);
+    adaptive.recordValidation(400, false);
+
+    expect(adaptive.getDelay(500)).toBe(350);
+  });
+
+  /**
+   * Verifies that consecutive failures double the delay until a validation succeeds.
+   */
+  it('should back off after failed validations', () => {
+    const adaptive = createAdaptiveDelay({ minDelay: 100, maxDelay: 1000 });
+    adaptive.recordCall(0);
+    adaptive.recordCall(100);
+
+    adaptive.recordValidation(0, true);
+    expect(adaptive.getDelay(500)).toBe(400);
+
+    adaptive.recordValidation(0, true);
+    adaptive.recordValidation(0, true);
+    expect(adaptive.getDelay(500)).toBe(1000);
+
+    adaptive.recordValidation(0, false);
+    expect(adaptive.getDelay(500)).toBe(200);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import {
+  checkEmailAvailability,
+  checkEmailsAvailability,
+  parseRetryAfter,
+  RateLimitError,
+} from '../availability-client';
+
+/**
+ * Test suite for the availability client.
+ * Responses of the `/api` route are converted to validation results, and failures are thrown.
+ */
+describe('availability client', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stubFetch = (response: Response) => {
+    const fetchMock = vi.fn().mockResolvedValue(response);
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  };
+
+  /**
+   * Verifies that an unavailable email is converted to an invalid result with the reason as code.
+   */
+  it('should convert unavailable emails to invalid results', async () => {
+    stubFetch(Response.json({ value: 'test@example.com', available: false, reason: 'registered' }));
+
+    expect(await checkEmailAvailability('test@example.com', new AbortController().signal)).toEqual({
+      valid: false,
+      message: 'This email is already registered. Sign in instead.',
+      code: 'registered',
+    });
+  });
+
+  /**
+   * Verifies that a 429 response throws a RateLimitError with the Retry-After delay.
+   */
+  it('should throw a RateLimitError for 429 responses', async () => {
+    stubFetch(
+      Response.json(
+        { error: 'Too many requests' },
+        { status: 429, headers: { 'Retry-After': '3' } }
+      )
+    );
+
+    const promise = checkEmailAvailability('test@example.com', new AbortController().signal);
+
+    await expect(promise).rejects.toBeInstanceOf(RateLimitError);
+    await expect(promise).rejects.toMatchObject({ retryAfter: 3000 });
+  });
+
+  /**
+   * Verifies that other failed responses throw instead of reporting the email as taken.
+   */
+  it('should throw for other failed responses', async () => {
+    stubFetch(new Response('Internal Server Error', { status: 500 }));
+
+    await expect(
+      checkEmailAvailability('test@example.com', new AbortController().signal)
+    ).rejects.toThrow('Availability check failed with status 500');
+  });
+
+  /**
+   * Verifies that responses breaking the contract throw instead of reading as available.
+   */
+  it('should throw for responses that break the contract', async () => {
+    const signal = new AbortController().signal;
+
+    stubFetch(Response.json({ result: true }));
+    await expect(checkEmailAvailability('test@example.com', signal)).rejects.toThrow();
+
+    stubFetch(new Response('<!DOCTYPE html><html></html>', { status: 200 }));
+    await expect(checkEmailAvailability('test@example.com', signal)).rejects.toThrow();
+  });
+
+  /**
+   * Verifies that a batch response with the wrong number of results throws.
+   */
+  it('should throw when a batch response has the wrong number of results', async () => {
+    stubFetch(
+      Response.json({
+        results: [{ input: 'a@example.com', result: { value: 'a@example.com', available: true } }],
+      })
+    );
+
+    await expect(
+      checkEmailsAvailability(['a@example.com', 'b@example.com'], new AbortController().signal)
+    ).rejects.toThrow('Expected 2 availability results, got 1');
+  });
+
+  /**
+   * Verifies that entries the batch route rejected become invalid results with its message.
+   */
+  it('should convert per-item batch errors to invalid results', async () => {
+    stubFetch(
+      Response.json({
+        results: [
+          { input: 'a@example.com', result: { value: 'a@example.com', available: true } },
+          { input: 'nope', error: 'Please enter a valid email format' },
+        ],
+      })
+    );
+
+    await expect(
+      checkEmailsAvailability(['a@example.com', 'nope'], new AbortController().signal)
+    ).resolves.toEqual([
+      { valid: true },
+      { valid: false, message: 'Please enter a valid email format', code: 'invalid' },
+    ]);
+  });
+
+  /**
+   * Verifies that Retry-After is parsed as seconds or as an HTTP date, with a fallback.
+   */
+  it('should parse Retry-After headers', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter(null, now)).toBe(1000);
+    expect(parseRetryAfter('soon', now)).toBe(1000);
+  });
+});
@@ -0,0 +1,119 @@
+import * as v from 'valibot';
+import { describe, it, expect } from 'vitest';
+
+import {
+  availabilityRequestSchema,
+  availabilityResponseSchema,
+  batchAvailabilityRequestSchema,
+  batchItemSchema,
+  localizeAvailability,
+  toAvailabilityResult,
+} from '../availability-contract';
+
+/**
+ * Test suite for the availability contract.
+ * The route and its client validate requests and responses with the same schemas.
+ */
+describe('availability contract', () => {
+  /**
+   * Verifies that requests need a valid email.
+   */
+  it('should only accept requests with a valid email', () => {
+    expect(v.is(availabilityRequestSchema, { email: 'user@example.com' })).toBe(true);
+    expect(v.is(availabilityRequestSchema, { email: 'not-an-email' })).toBe(false);
+    expect(v.is(availabilityRequestSchema, { email: null })).toBe(false);
+  });
+
+  /**
+   * Verifies that batch requests accept malformed entries, which are reported one by one.
+   */
+  it('should accept batch requests with malformed entries', () => {
+    expect(v.is(batchAvailabilityRequestSchema, { emails: ['user@example.com', 42, null] })).toBe(
+      true
+    );
+    expect(v.is(batchAvailabilityRequestSchema, { emails: 'user@example.com' })).toBe(false);
+  });
+
+  /**
+   * Verifies that a batch item carries either a result or an error.
+   */
+  it('should require a result or an error in batch items', () => {
+    expect(
+      v.is(batchItemSchema, {
+        input: 'user@example.com',
+        result: { value: 'user@example.com', available: true },
+      })
+    ).toBe(true);
+    expect(v.is(batchItemSchema, { input: 42, error: 'Invalid type' })).toBe(true);
+    expect(v.is(batchItemSchema, { input: 'user@example.com' })).toBe(false);
+  });
+
+  /**
+   * Verifies that unavailable responses need a known reason.
+   */
+  it('should require a known reason for unavailable emails', () => {
+    expect(
+      v.is(availabilityResponseSchema, {
+        value: 'user@example.com',
+        available: false,
+        reason: 'registered',
+      })
+    ).toBe(true);
+    expect(v.is(availabilityResponseSchema, { value: 'user@example.com', available: false })).toBe(
+      false
+    );
+    expect(
+      v.is(availabilityResponseSchema, {
+        value: 'user@example.com',
+        available: false,
+        reason: 'unknown',
+      })
+    ).toBe(false);
+  });
+
+  /**
+   * Verifies that responses are converted to validation results coded by reason.
+   */
+  it('should convert responses to validation results', () => {
+    expect(toAvailabilityResult({ value: 'user@example.com', available: true })).toEqual({
+      valid: true,
+    });
+    expect(
+      toAvailabilityResult({ value: 'user@example.com', available: false, reason: 'registered' })
+    ).toEqual({
+      valid: false,
+      message: 'This email is already registered. Sign in instead.',
+      code: 'registered',
+    });
+    expect(
+      toAvailabilityResult(
+        { value: 'jane', available: false, reason: 'registered', suggestions: ['jane1'] },
+        'username'
+      )
+    ).toEqual({
+      valid: false,
+      message: 'This username is already taken.',
+      code: 'registered',
+      suggestions: ['jane1'],
+    });
+  });
+
+  /**
+   * Verifies that reasons are translated, both when converting and from cached results.
+   */
+  it('should localize unavailable reasons', () => {
+    const result = toAvailabilityResult(
+      { value: 'user@example.com', available: false, reason: 'registered' },
+      'email',
+      'ja'
+    );
+
+    expect(result.message).toBe(
+      'このメールアドレスは既に登録されています。サインインしてください。'
+    );
+    expect(localizeAvailability('username')({ valid: false, code: 'reserved' }, 'ja-JP')).toBe(
+      'このユーザー名は予約されています。別のユーザー名を選んでください。'
+    );
+    expect(localizeAvailability('email')({ valid: false, code: 'invalid' }, 'ja')).toBeUndefined();
+  });
+});
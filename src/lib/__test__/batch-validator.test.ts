@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createBatchValidator } from '../batch-validator';
+import { createDebouncedValidator } from '../debounced-validator';
+
+/**
+ * Test suite for createBatchValidator.
+ * The batch validator collects values from many callers and validates them in one call.
+ */
+describe('createBatchValidator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const signal = () => new AbortController().signal;
+
+  /**
+   * Verifies that values requested within the delay are validated in one call and routed back.
+   */
+  it('should validate collected values in a single call', async () => {
+    const validateMany = vi.fn(async (values: string[]) => values.map((v) => v !== 'taken'));
+    const validate = createBatchValidator(validateMany, { delay: 10 });
+
+    const results = Promise.all([
+      validate('free', signal()),
+      validate('taken', signal()),
+      validate('free', signal()),
+    ]);
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(validateMany).toHaveBeenCalledTimes(1);
+    expect(validateMany).toHaveBeenCalledWith(['free', 'taken'], expect.any(AbortSignal));
+    expect(await results).toEqual([true, false, true]);
+  });
+
+  /**
+   * Verifies that a full batch is sent immediately and the rest goes into the next batch.
+   */
+  it('should split batches at maxBatchSize', async () => {
+    const validateMany = vi.fn(async (values: string[]) => values.map(() => true));
+    const validate = createBatchValidator(validateMany, { maxBatchSize: 2 });
+
+    const results = Promise.all(['a', 'b', 'c'].map((value) => validate(value, signal())));
+    expect(validateMany).toHaveBeenCalledWith(['a', 'b'], expect.any(AbortSignal));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(validateMany).toHaveBeenLastCalledWith(['c'], expect.any(AbortSignal));
+    expect(await results).toEqual([true, true, true]);
+  });
+
+  /**
+   * Verifies that aborted callers are dropped from a queued batch.
+   */
+  it('should drop values aborted before the batch is sent', async () => {
+    const validateMany = vi.fn(async (values: string[]) => values.map(() => true));
+    const validate = createBatchValidator(validateMany, { delay: 10 });
+    const controller = new AbortController();
+
+    const aborted = expect(validate('old', controller.signal)).rejects.toBeDefined();
+    const kept = validate('new', signal());
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(10);
+
+    await aborted;
+    expect(await kept).toBe(true);
+    expect(validateMany).toHaveBeenCalledWith(['new'], expect.any(AbortSignal));
+  });
+
+  /**
+   * Verifies that every caller rejects when the batch fails or returns the wrong number of results.
+   */
+  it('should reject every caller when the batch fails', async () => {
+    const validate = createBatchValidator(async () => [true]);
+
+    const results = Promise.allSettled([validate('a', signal()), validate('b', signal())]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect((await results).map((result) => result.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  /**
+   * Verifies that several debounced validators share batches while keeping their own caches.
+   */
+  it('should batch the calls of several debounced validators', async () => {
+    const validateMany = vi.fn(async (values: string[]) => values.map(() => true));
+    const validate = createBatchValidator(validateMany);
+    const rows = [0, 1, 2].map(() => createDebouncedValidator(validate, { delay: 100 }));
+
+    const results = Promise.all(rows.map((row, i) => row.validate(`user${i}@example.com`)));
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(await results).toEqual([true, true, true]);
+    expect(validateMany).toHaveBeenCalledTimes(1);
+
+    expect(await rows[1].validate('user1@example.com')).toBe(true);
+    expect(validateMany).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,423 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createDebouncedValidator } from '../debounced-validator';
+
+import type { ValidationResult } from '../validation-result';
+
+/**
+ * Test suite for createDebouncedValidator.
+ * The framework-agnostic core behind useDebouncedValidator, tested without React.
+ */
+describe('createDebouncedValidator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Verifies that consecutive calls are debounced and resolved with the final result.
+   */
+  it('should debounce calls and resolve all with the final result', async () => {
+    const validate = vi.fn().mockResolvedValue(true);
+    const validator = createDebouncedValidator(validate, { delay: 100 });
+
+    const promise1 = validator.validate('a');
+    const promise2 = validator.validate('ab');
+    vi.advanceTimersByTime(100);
+
+    expect(validate).toHaveBeenCalledTimes(1);
+    expect(validate).toHaveBeenCalledWith('ab', expect.any(AbortSignal));
+    expect(await promise1).toBe(true);
+    expect(await promise2).toBe(true);
+  });
+
+  /**
+   * Verifies that going back to a cached value drops the older value that was still debouncing,
+   * so its result never replaces the state of the current value.
+   */
+  it('should supersede a debouncing value when returning to a cached one', async () => {
+    const validate = vi.fn(async (value: string) => value === 'good');
+    const validator = createDebouncedValidator(validate, { delay: 100 });
+
+    const first = validator.validate('good');
+    vi.advanceTimersByTime(100);
+    expect(await first).toBe(true);
+
+    const superseded = validator.validate('bad');
+    expect(await validator.validate('good')).toBe(true);
+    expect(await superseded).toBe(true);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(validate).toHaveBeenCalledTimes(1);
+    expect(validator.getState()).toMatchObject({ status: 'valid', value: 'good' });
+  });
+
+  /**
+   * Verifies that going back to the default value aborts the validation of the older value.
+   */
+  it('should abort an in-flight value when returning to the default value', async () => {
+    let signal: AbortSignal | undefined;
+    const validate = vi.fn((_value: string, s: AbortSignal) => {
+      signal = s;
+      return new Promise<boolean>(() => {});
+    });
+    const validator = createDebouncedValidator(validate, { delay: 100, defaultValue: '' });
+
+    const superseded = validator.validate('bad');
+    vi.advanceTimersByTime(100);
+    expect(await validator.validate('')).toBe(true);
+
+    expect(signal?.aborted).toBe(true);
+    expect(await superseded).toBe(true);
+    expect(validator.getState()).toMatchObject({ status: 'idle', value: '' });
+  });
+
+  /**
+   * Verifies that a validation started by maxWait settles during steady typing, instead of being
+   * aborted by the next call, while the state follows the newest value.
+   */
+  it('should settle a validation started by maxWait while calls keep coming in', async () => {
+    const validate = vi.fn(
+      (value: string) =>
+        new Promise<ValidationResult>((resolve) => {
+          setTimeout(() => resolve({ valid: false, message: value }), 100);
+        })
+    );
+    const validator = createDebouncedValidator(validate, { delay: 100, maxWait: 250 });
+    const settled: ValidationResult[] = [];
+
+    // One call every 60 ms: maxWait starts a validation of value4 at 250 ms, which settles at 350 ms
+    for (let i = 0; i < 8; i++) {
+      validator.check(`value${i}`).then((result) => settled.push(result));
+      await vi.advanceTimersByTimeAsync(60);
+    }
+
+    expect(settled).toHaveLength(5);
+    expect(settled.every((result) => result.message === 'value4')).toBe(true);
+    expect(validator.getState()).toMatchObject({ status: 'debouncing', value: 'value7' });
+
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(settled).toHaveLength(8);
+    expect(settled.at(-1)).toEqual({ valid: false, message: 'value7' });
+    expect(validator.getState()).toMatchObject({ status: 'invalid', value: 'value7' });
+  });
+
+  /**
+   * Verifies that subscribers are notified of every state transition.
+   */
+  it('should notify subscribers of state changes', async () => {
+    const validator = createDebouncedValidator(vi.fn().mockResolvedValue(false), { delay: 100 });
+    const statuses: string[] = [];
+    const unsubscribe = validator.subscribe(() => statuses.push(validator.getState().status));
+
+    expect(validator.getState().status).toBe('idle');
+
+    const promise = validator.check('test');
+    vi.advanceTimersByTime(100);
+    await promise;
+
+    expect(statuses).toEqual(['debouncing', 'validating', 'invalid']);
+    expect(validator.getState().value).toBe('test');
+
+    unsubscribe();
+    validator.reset();
+    expect(statuses).toHaveLength(3);
+    expect(validator.getState().status).toBe('idle');
+  });
+
+  /**
+   * Verifies that dispose cancels pending work and drops subscribers without changing the state.
+   */
+  it('should cancel pending work and remove subscribers on dispose', async () => {
+    let signal: AbortSignal | undefined;
+    const validate = vi.fn((_value: string, s: AbortSignal) => {
+      signal = s;
+      return new Promise<boolean>(() => {});
+    });
+    const validator = createDebouncedValidator(validate, { delay: 100 });
+    const listener = vi.fn();
+    validator.subscribe(listener);
+
+    const promise = validator.validate('test');
+    vi.advanceTimersByTime(100);
+    listener.mockClear();
+
+    validator.dispose();
+
+    expect(signal?.aborted).toBe(true);
+    expect(await promise).toBe(false);
+    expect(validator.getState().status).toBe('validating');
+
+    validator.validate('other');
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Verifies that configure replaces the validate function and options for later calls.
+   */
+  it('should use the validate function and options passed to configure', async () => {
+    const first = vi.fn().mockResolvedValue(true);
+    const second = vi.fn().mockResolvedValue(true);
+    const validator = createDebouncedValidator(first, { delay: 100 });
+
+    validator.configure(second, { delay: 100, negate: true });
+
+    const promise = validator.validate('test');
+    vi.advanceTimersByTime(100);
+
+    expect(await promise).toBe(false);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith('test', expect.any(AbortSignal));
+  });
+
+  /**
+   * Verifies that getRetryDelay overrides the backoff, e.g. with a server's Retry-After.
+   */
+  it('should wait for the delay returned by getRetryDelay before retrying', async () => {
+    const rateLimited = Object.assign(new Error('Too many requests'), { retryAfter: 3000 });
+    const validate = vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValueOnce(true);
+    const validator = createDebouncedValidator(validate, {
+      delay: 100,
+      maxAttempts: 2,
+      retryDelay: 100,
+      getRetryDelay: (error) => (error === rateLimited ? rateLimited.retryAfter : undefined),
+    });
+
+    const promise = validator.validate('test');
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(validate).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(validate).toHaveBeenCalledTimes(2);
+    expect(await promise).toBe(true);
+  });
+
+  /**
+   * Verifies that adaptiveDelay derives the debounce delay from the gaps between calls.
+   */
+  it('should adapt the delay to the typing cadence', async () => {
+    const onEvent = vi.fn();
+    const validate = vi.fn().mockResolvedValue(true);
+    const validator = createDebouncedValidator(validate, {
+      delay: 500,
+      adaptiveDelay: { minDelay: 100, maxDelay: 1000 },
+      onEvent,
+    });
+
+    validator.validate('a');
+    expect(onEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'scheduled', delay: 500 })
+    );
+
+    vi.advanceTimersByTime(80);
+    validator.validate('ab');
+    vi.advanceTimersByTime(80);
+    const promise = validator.validate('abc');
+    expect(onEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'scheduled', delay: 160 })
+    );
+
+    await vi.advanceTimersByTimeAsync(160);
+    expect(validate).toHaveBeenCalledWith('abc', expect.any(AbortSignal));
+    expect(await promise).toBe(true);
+  });
+
+  describe('Telemetry', () => {
+    /**
+     * Verifies that a debounced burst emits scheduled, superseded, cache and validate events in order.
+     */
+    it('should emit events for a debounced burst', async () => {
+      const onEvent = vi.fn();
+      const validate = vi.fn().mockResolvedValue(true);
+      const validator = createDebouncedValidator(validate, { delay: 100, onEvent });
+
+      validator.validate('a');
+      const promise = validator.validate('ab');
+      await vi.advanceTimersByTimeAsync(100);
+      await promise;
+
+      const events = onEvent.mock.calls.map(([event]) => [event.type, event.value]);
+      expect(events).toEqual([
+        ['cache-miss', 'a'],
+        ['scheduled', 'a'],
+        ['cache-miss', 'ab'],
+        ['superseded', 'a'],
+        ['scheduled', 'ab'],
+        ['validate-start', 'ab'],
+        ['validate-end', 'ab'],
+      ]);
+      expect(onEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'validate-end', attempt: 1, result: { valid: true } })
+      );
+
+      validator.validate('ab');
+      expect(onEvent).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: 'cache-hit', value: 'ab', key: 'ab' })
+      );
+    });
+
+    /**
+     * Verifies that validate-end reports how long the validate function took.
+     */
+    it('should report the duration of each attempt', async () => {
+      const onEvent = vi.fn();
+      const validate = vi.fn(
+        () => new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 250))
+      );
+      const validator = createDebouncedValidator(validate, { delay: 100, onEvent });
+
+      const promise = validator.validate('test');
+      await vi.advanceTimersByTimeAsync(350);
+      await promise;
+
+      expect(onEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'validate-end', duration: 250 })
+      );
+    });
+
+    /**
+     * Verifies that failed attempts emit error events that tell whether a retry follows.
+     */
+    it('should emit an error event for every failed attempt', async () => {
+      const onEvent = vi.fn();
+      const error = new Error('Network error');
+      const validate = vi.fn().mockRejectedValue(error);
+      const validator = createDebouncedValidator(validate, {
+        delay: 100,
+        maxAttempts: 2,
+        retryDelay: 100,
+        onEvent,
+      });
+
+      const promise = validator.validate('test');
+      await vi.advanceTimersByTimeAsync(200);
+      await promise;
+
+      const errors = onEvent.mock.calls
+        .map(([event]) => event)
+        .filter((event) => event.type === 'error');
+      expect(errors).toEqual([
+        expect.objectContaining({ attempt: 1, error, willRetry: true }),
+        expect.objectContaining({ attempt: 2, error, willRetry: false }),
+      ]);
+      expect(validator.getStats()).toMatchObject({ validations: 2, errors: 2 });
+    });
+
+    /**
+     * Verifies that a newer value aborting an in-flight validation is reported as superseded.
+     */
+    it('should emit superseded when an in-flight validation is aborted', async () => {
+      const onEvent = vi.fn();
+      const validate = vi.fn(() => new Promise<boolean>(() => {}));
+      const validator = createDebouncedValidator(validate, { delay: 100, onEvent });
+
+      validator.validate('first');
+      await vi.advanceTimersByTimeAsync(100);
+      validator.validate('second');
+
+      expect(onEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'superseded', value: 'first', phase: 'validating' })
+      );
+    });
+
+    /**
+     * Verifies that disposing with pending work emits unmount-flush, and nothing otherwise.
+     */
+    it('should emit unmount-flush only when work is pending on dispose', () => {
+      const onEvent = vi.fn();
+      const validator = createDebouncedValidator(vi.fn().mockResolvedValue(true), {
+        delay: 100,
+        onEvent,
+      });
+
+      validator.validate('test');
+      validator.dispose();
+
+      expect(onEvent).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          type: 'unmount-flush',
+          value: 'test',
+          phase: 'debouncing',
+          pending: 1,
+        })
+      );
+
+      onEvent.mockClear();
+      validator.dispose();
+      expect(onEvent).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that unmount-flush counts the calls waiting for a validation in flight.
+     */
+    it('should count the calls of an in-flight validation on dispose', async () => {
+      const onEvent = vi.fn();
+      const validator = createDebouncedValidator(
+        vi.fn(() => new Promise<boolean>(() => {})),
+        { delay: 100, onEvent }
+      );
+
+      validator.validate('test');
+      validator.validate('test');
+      await vi.advanceTimersByTimeAsync(100);
+      validator.dispose();
+
+      expect(onEvent).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          type: 'unmount-flush',
+          value: 'test',
+          phase: 'validating',
+          pending: 2,
+        })
+      );
+    });
+
+    /**
+     * Verifies that the counters track calls, cache hits and avoided validate calls.
+     */
+    it('should count calls, cache hits and avoided validations', async () => {
+      const validate = vi.fn().mockResolvedValue(true);
+      const validator = createDebouncedValidator(validate, { delay: 100, defaultValue: '' });
+
+      validator.validate('');
+      validator.validate('a');
+      validator.validate('ab');
+      const promise = validator.validate('abc');
+      await vi.advanceTimersByTimeAsync(100);
+      await promise;
+      await validator.validate('abc');
+
+      expect(validator.getStats()).toEqual({
+        calls: 5,
+        cacheHits: 1,
+        cacheMisses: 3,
+        validations: 1,
+        errors: 0,
+        avoided: 4,
+      });
+    });
+
+    /**
+     * Verifies that an onEvent callback that throws does not affect validation.
+     */
+    it('should ignore errors thrown by onEvent', async () => {
+      const validator = createDebouncedValidator(vi.fn().mockResolvedValue(true), {
+        delay: 100,
+        onEvent: () => {
+          throw new Error('Analytics failed');
+        },
+      });
+
+      const promise = validator.validate('test');
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(await promise).toBe(true);
+      expect(validator.getState().status).toBe('valid');
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+
+import { createDomainPolicy } from '../domain-policy';
+
+/**
+ * Test suite for createDomainPolicy.
+ * Domains can be blocked with their own reason, or limited to an allowlist.
+ */
+describe('createDomainPolicy', () => {
+  /**
+   * Verifies that every domain is accepted without configuration.
+   */
+  it('should accept every domain by default', () => {
+    expect(createDomainPolicy().check('user@example.com')).toBeNull();
+  });
+
+  /**
+   * Verifies that blocked domains report their own reason, including for subdomains.
+   */
+  it('should reject blocked domains with their reason', () => {
+    const policy = createDomainPolicy({
+      blocklist: { 'mailinator.com': 'disposable_domain', 'Spam.Example': 'blocked_domain' },
+    });
+
+    expect(policy.check('user@mailinator.com')).toBe('disposable_domain');
+    expect(policy.check('user@eu.mailinator.com')).toBe('disposable_domain');
+    expect(policy.check('user@spam.example')).toBe('blocked_domain');
+    expect(policy.check('user@notmailinator.com')).toBeNull();
+  });
+
+  /**
+   * Verifies that allowlist mode only accepts the listed domains and their subdomains.
+   */
+  it('should only accept allowlisted domains in allowlist mode', () => {
+    const policy = createDomainPolicy({ allowlist: ['acme.com'] });
+
+    expect(policy.check('user@acme.com')).toBeNull();
+    expect(policy.check('user@eu.acme.com')).toBeNull();
+    expect(policy.check('user@example.com')).toBe('domain_not_allowed');
+  });
+
+  /**
+   * Verifies that the blocklist still applies to allowlisted domains.
+   */
+  it('should apply the blocklist before the allowlist', () => {
+    const policy = createDomainPolicy({
+      allowlist: ['acme.com'],
+      blocklist: { 'contractors.acme.com': 'blocked_domain' },
+    });
+
+    expect(policy.check('user@contractors.acme.com')).toBe('blocked_domain');
+  });
+});
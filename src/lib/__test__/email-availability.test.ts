@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { createDomainPolicy } from '../domain-policy';
+import { createEmailAvailability } from '../email-availability';
+import { createMemoryValueStore } from '../value-store';
+
+/**
+ * Test suite for createEmailAvailability.
+ * The service normalizes emails and explains why an email is unavailable.
+ */
+describe('createEmailAvailability', () => {
+  /**
+   * Verifies that any normalized form of a registered email is reported as registered.
+   */
+  it('should report registered emails after normalization', async () => {
+    const availability = createEmailAvailability({
+      store: createMemoryValueStore(['test@example.com']),
+    });
+
+    expect(await availability.check('Test+Signup@Example.com ')).toEqual({
+      value: 'test@example.com',
+      available: false,
+      reason: 'registered',
+    });
+    expect(await availability.check('other@example.com')).toEqual({
+      value: 'other@example.com',
+      available: true,
+    });
+  });
+
+  /**
+   * Verifies that register stores the normalized email only once.
+   */
+  it('should register normalized emails', async () => {
+    const availability = createEmailAvailability({
+      store: createMemoryValueStore(),
+      normalization: { gmailDots: true },
+    });
+
+    expect(await availability.register('J.Doe@gmail.com')).toBe(true);
+    expect(await availability.register('jdoe+x@googlemail.com')).toBe(false);
+    expect(await availability.check('jdoe@gmail.com')).toMatchObject({ available: false });
+  });
+
+  /**
+   * Verifies that domain policy reasons are reported separately from registered emails.
+   */
+  it('should report domain policy reasons before registration', async () => {
+    const availability = createEmailAvailability({
+      store: createMemoryValueStore(['user@mailinator.com']),
+      domainPolicy: createDomainPolicy({ blocklist: { 'mailinator.com': 'disposable_domain' } }),
+    });
+
+    expect(await availability.check('User@Mailinator.com')).toEqual({
+      value: 'user@mailinator.com',
+      available: false,
+      reason: 'disposable_domain',
+    });
+    expect(await availability.check('user@example.com')).toMatchObject({ available: true });
+  });
+});
+
+/**
+ * Test suite for getEmailAvailability.
+ * The shared service is configured from environment variables on first use.
+ */
+describe('getEmailAvailability', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  /**
+   * Verifies that an empty ALLOWED_EMAIL_DOMAINS does not reject every domain.
+   */
+  it('should not switch to allowlist mode without an allowed domain', async () => {
+    vi.stubEnv('ALLOWED_EMAIL_DOMAINS', ' , ');
+    vi.resetModules();
+    const { getEmailAvailability } = await import('../email-availability');
+
+    expect(await getEmailAvailability().check('new@company.com')).toEqual({
+      value: 'new@company.com',
+      available: true,
+    });
+  });
+});
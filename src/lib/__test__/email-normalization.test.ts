@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+
+import { normalizeEmail } from '../email-normalization';
+
+/**
+ * Test suite for normalizeEmail.
+ * Addresses delivered to the same mailbox should normalize to the same string.
+ */
+describe('normalizeEmail', () => {
+  /**
+   * Verifies that whitespace is trimmed and the address is lowercased.
+   */
+  it('should trim and case-fold the email', () => {
+    expect(normalizeEmail('  Test@Example.COM ')).toBe('test@example.com');
+  });
+
+  /**
+   * Verifies that +tag subaddresses are removed unless disabled.
+   */
+  it('should remove subaddresses', () => {
+    expect(normalizeEmail('user+news@example.com')).toBe('user@example.com');
+    expect(normalizeEmail('user+a+b@example.com')).toBe('user@example.com');
+    expect(normalizeEmail('user+news@example.com', { removeSubaddress: false })).toBe(
+      'user+news@example.com'
+    );
+  });
+
+  /**
+   * Verifies that a local part starting with + is kept as is.
+   */
+  it('should keep a leading plus sign', () => {
+    expect(normalizeEmail('+user@example.com')).toBe('+user@example.com');
+  });
+
+  /**
+   * Verifies that Gmail dots and the googlemail.com domain are only normalized when enabled.
+   */
+  it('should apply the Gmail rules only with gmailDots', () => {
+    expect(normalizeEmail('J.Doe+x@googlemail.com', { gmailDots: true })).toBe('jdoe@gmail.com');
+    expect(normalizeEmail('j.doe@gmail.com')).toBe('j.doe@gmail.com');
+    expect(normalizeEmail('j.doe@example.com', { gmailDots: true })).toBe('j.doe@example.com');
+  });
+
+  /**
+   * Verifies that values without an @ are only trimmed and lowercased.
+   */
+  it('should leave values without an @ mostly untouched', () => {
+    expect(normalizeEmail(' Not+An.Email ')).toBe('not+an.email');
+  });
+});
@@ -0,0 +1,87 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { createFileValueStore } from '../file-value-store';
+
+/**
+ * Test suite for createFileValueStore.
+ * Values are persisted as a JSON array, so they survive restarts and are shared between processes.
+ */
+describe('createFileValueStore', () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'value-store-'));
+    path = join(directory, 'emails.json');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Verifies that a missing file is treated as an empty store.
+   */
+  it('should start empty without a file', async () => {
+    const store = createFileValueStore(path);
+
+    expect(await store.has('user@example.com')).toBe(false);
+  });
+
+  /**
+   * Verifies that added values are written to the file and read by other instances.
+   */
+  it('should persist added values', async () => {
+    const store = createFileValueStore(path);
+
+    expect(await store.add('user@example.com')).toBe(true);
+    expect(await store.add('user@example.com')).toBe(false);
+
+    expect(JSON.parse(await readFile(path, 'utf8'))).toEqual(['user@example.com']);
+    expect(await createFileValueStore(path).has('user@example.com')).toBe(true);
+  });
+
+  /**
+   * Verifies that concurrent adds of the same value only succeed once.
+   */
+  it('should add concurrently without losing or duplicating values', async () => {
+    const store = createFileValueStore(path);
+
+    const results = await Promise.all([
+      store.add('a@example.com'),
+      store.add('b@example.com'),
+      store.add('a@example.com'),
+    ]);
+
+    expect(results).toEqual([true, true, false]);
+    expect(JSON.parse(await readFile(path, 'utf8'))).toEqual(['a@example.com', 'b@example.com']);
+  });
+
+  /**
+   * Verifies that deleted values are removed from the file.
+   */
+  it('should delete values', async () => {
+    const store = createFileValueStore(path);
+    await store.add('a@example.com');
+    await store.add('b@example.com');
+
+    expect(await store.delete('a@example.com')).toBe(true);
+    expect(await store.delete('a@example.com')).toBe(false);
+    expect(JSON.parse(await readFile(path, 'utf8'))).toEqual(['b@example.com']);
+  });
+
+  /**
+   * Verifies that a file that is not an array of strings is reported instead of overwritten.
+   */
+  it('should reject a malformed file', async () => {
+    await writeFile(path, '{"emails": []}');
+    const store = createFileValueStore(path);
+
+    await expect(store.add('user@example.com')).rejects.toThrow('Expected a JSON array of strings');
+    expect(await readFile(path, 'utf8')).toBe('{"emails": []}');
+  });
+});
@@ -0,0 +1,59 @@
+import * as v from 'valibot';
+import { describe, it, expect } from 'vitest';
+
+import { message, negotiateLocale, resolveLocale, translate } from '../i18n';
+
+/**
+ * Test suite for the message catalog helpers.
+ * Locales are negotiated per request and messages are translated into them.
+ */
+describe('i18n', () => {
+  /**
+   * Verifies that language tags resolve to a supported locale by their primary subtag.
+   */
+  it('should resolve language tags to supported locales', () => {
+    expect(resolveLocale('ja')).toBe('ja');
+    expect(resolveLocale('ja-JP')).toBe('ja');
+    expect(resolveLocale('EN-us')).toBe('en');
+    expect(resolveLocale('fr')).toBe('en');
+    expect(resolveLocale(undefined)).toBe('en');
+  });
+
+  /**
+   * Verifies that the cookie wins, then the supported language with the highest quality.
+   */
+  it('should negotiate the locale of a request', () => {
+    expect(negotiateLocale(undefined, 'fr;q=0.9, ja;q=0.8, en;q=0.5')).toBe('ja');
+    expect(negotiateLocale(undefined, 'en;q=0.5, ja-JP')).toBe('ja');
+    expect(negotiateLocale(undefined, 'ja;q=0, fr')).toBe('en');
+    expect(negotiateLocale('en', 'ja')).toBe('en');
+    expect(negotiateLocale('de', 'ja')).toBe('ja');
+    expect(negotiateLocale(null, null)).toBe('en');
+  });
+
+  /**
+   * Verifies that placeholders are filled in and unknown ones are kept.
+   */
+  it('should translate messages with placeholders', () => {
+    expect(translate('en', 'accountCreated', { email: 'a@example.com' })).toBe(
+      'Your account has been created for a@example.com.'
+    );
+    expect(translate('ja', 'accountCreated', { email: 'a@example.com' })).toBe(
+      'a@example.com でアカウントを作成しました。'
+    );
+    expect(translate('en', 'accountCreated')).toBe('Your account has been created for {email}.');
+  });
+
+  /**
+   * Verifies that Valibot messages follow the lang of the parse config.
+   */
+  it('should translate Valibot messages into the parse language', () => {
+    const schema = v.pipe(v.string(), v.minLength(1, message('required')));
+
+    expect(v.safeParse(schema, '').issues?.[0].message).toBe('This field is required');
+    expect(v.safeParse(schema, '', { lang: 'ja' }).issues?.[0].message).toBe('この項目は必須です');
+    expect(v.safeParse(schema, '', { lang: 'fr' }).issues?.[0].message).toBe(
+      'This field is required'
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+
+import { estimatePasswordStrength } from '../password-strength';
+
+/**
+ * Test suite for estimatePasswordStrength.
+ * The score is a local hint that rewards length and variety and penalizes predictable patterns.
+ */
+describe('estimatePasswordStrength', () => {
+  /**
+   * Verifies that empty and common passwords score 0, even with trailing numbers and symbols.
+   */
+  it('should score empty and common passwords as very weak', () => {
+    expect(estimatePasswordStrength('').score).toBe(0);
+    expect(estimatePasswordStrength('Password1').score).toBe(0);
+    expect(estimatePasswordStrength('qwerty2024!').score).toBe(0);
+  });
+
+  /**
+   * Verifies that length and character classes raise the score up to 4.
+   */
+  it('should reward length and character variety', () => {
+    expect(estimatePasswordStrength('Jane2024')).toEqual({ score: 2, classes: 3 });
+    expect(estimatePasswordStrength('xK9#mQ2$vL')).toEqual({ score: 3, classes: 4 });
+    expect(estimatePasswordStrength('correct-Horse-7-battery')).toEqual({ score: 4, classes: 4 });
+  });
+
+  /**
+   * Verifies that repeated characters, sequences and few distinct characters lower the score.
+   */
+  it('should penalize predictable patterns', () => {
+    expect(estimatePasswordStrength('Vortex1111').score).toBeLessThan(
+      estimatePasswordStrength('Vortex1739').score
+    );
+    expect(estimatePasswordStrength('Vortex1234').score).toBeLessThan(
+      estimatePasswordStrength('Vortex1739').score
+    );
+    expect(estimatePasswordStrength('aaaaaaaaaaaaaaaaaa').score).toBe(1);
+  });
+});
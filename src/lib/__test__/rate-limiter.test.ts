@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createMemoryRateLimitStore, createRateLimiter, getClientAddress } from '../rate-limiter';
+
+/**
+ * Test suite for createRateLimiter.
+ * Each key has a token bucket that allows bursts up to its capacity and refills over time.
+ */
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Verifies that a burst up to the capacity is allowed and the next request is rejected.
+   */
+  it('should allow bursts up to the capacity', async () => {
+    const limiter = createRateLimiter({ capacity: 3, refillPerSecond: 1 });
+
+    for (let i = 0; i < 3; i++) {
+      expect(await limiter.consume('client')).toMatchObject({ allowed: true });
+    }
+    expect(await limiter.consume('client')).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfter: 1000,
+    });
+  });
+
+  /**
+   * Verifies that tokens refill at the configured rate, up to the capacity.
+   */
+  it('should refill tokens over time', async () => {
+    const limiter = createRateLimiter({ capacity: 2, refillPerSecond: 2 });
+    await limiter.consume('client', 2);
+
+    vi.advanceTimersByTime(500);
+    expect(await limiter.consume('client')).toEqual({
+      allowed: true,
+      remaining: 0,
+      retryAfter: 0,
+    });
+
+    vi.advanceTimersByTime(60_000);
+    expect(await limiter.consume('client')).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  /**
+   * Verifies that every key has its own bucket.
+   */
+  it('should limit each key separately', async () => {
+    const limiter = createRateLimiter({ capacity: 1 });
+
+    await limiter.consume('a');
+
+    expect(await limiter.consume('a')).toMatchObject({ allowed: false });
+    expect(await limiter.consume('b')).toMatchObject({ allowed: true });
+  });
+
+  /**
+   * Verifies that a cost above the capacity is never allowed.
+   */
+  it('should never allow a cost above the capacity', async () => {
+    const limiter = createRateLimiter({ capacity: 5 });
+
+    expect(await limiter.consume('client', 6)).toMatchObject({
+      allowed: false,
+      retryAfter: Infinity,
+    });
+  });
+
+  /**
+   * Verifies that buckets are kept in the given store.
+   */
+  it('should use a custom store', async () => {
+    const store = createMemoryRateLimitStore();
+    const set = vi.spyOn(store, 'set');
+    const limiter = createRateLimiter({ capacity: 5, store });
+
+    await limiter.consume('client', 2);
+
+    expect(set).toHaveBeenCalledWith('client', { tokens: 3, updatedAt: Date.now() });
+    expect(await store.get('client')).toEqual({ tokens: 3, updatedAt: Date.now() });
+  });
+
+  /**
+   * Verifies that the memory store drops the least recently used bucket when full.
+   */
+  it('should evict the oldest bucket from the memory store', async () => {
+    const store = createMemoryRateLimitStore(2);
+
+    await store.set('a', { tokens: 1, updatedAt: 0 });
+    await store.set('b', { tokens: 1, updatedAt: 0 });
+    await store.set('a', { tokens: 0, updatedAt: 0 });
+    await store.set('c', { tokens: 1, updatedAt: 0 });
+
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('a')).toEqual({ tokens: 0, updatedAt: 0 });
+  });
+});
+
+/**
+ * Test suite for getClientAddress.
+ * Only the entries of `X-Forwarded-For` appended by trusted proxies identify the client.
+ */
+describe('getClientAddress', () => {
+  /**
+   * Verifies that addresses the client put in the header itself are ignored.
+   */
+  it('should take the entry appended by the outermost trusted proxy', () => {
+    const headers = new Headers({ 'x-forwarded-for': 'spoofed, 203.0.113.7, 10.0.0.2' });
+
+    expect(getClientAddress(headers, 1)).toBe('10.0.0.2');
+    expect(getClientAddress(headers, 2)).toBe('203.0.113.7');
+    expect(getClientAddress(headers, 5)).toBe('spoofed');
+  });
+
+  /**
+   * Verifies that X-Real-IP is used when no proxy appended to X-Forwarded-For.
+   */
+  it('should fall back to X-Real-IP', () => {
+    expect(getClientAddress(new Headers({ 'x-real-ip': '203.0.113.7' }), 1)).toBe('203.0.113.7');
+    expect(getClientAddress(new Headers(), 1)).toBeUndefined();
+  });
+
+  /**
+   * Verifies that the headers are not trusted without a proxy in front of the app.
+   */
+  it('should ignore the headers without trusted proxies', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.7' });
+
+    expect(getClientAddress(headers, 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { RateLimitError } from '../availability-client';
+import { submitSignup } from '../signup-client';
+
+/**
+ * Test suite for submitSignup.
+ * Field errors from the server are returned, and other failures are thrown.
+ */
+describe('submitSignup', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const inputs = {
+    name: 'Jane',
+    username: 'jane',
+    email: 'jane@example.com',
+    password: 'Secret-pass1',
+    confirmPassword: 'Secret-pass1',
+    newsletter: false,
+  };
+
+  /**
+   * Verifies that the inputs are posted and the registered email is returned.
+   */
+  it('should return the registered email on success', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(Response.json({ email: 'jane@example.com' }, { status: 201 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await submitSignup(inputs)).toEqual({ ok: true, email: 'jane@example.com' });
+    expect(fetchMock).toHaveBeenCalledWith(
+      new URL('/api/signup', window.location.origin),
+      expect.objectContaining({ method: 'POST', body: JSON.stringify(inputs) })
+    );
+  });
+
+  /**
+   * Verifies that field errors of 400 and 409 responses are returned instead of thrown.
+   */
+  it('should return field errors', async () => {
+    const errors = { email: 'This email is already registered. Sign in instead.' };
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(Response.json({ errors }, { status: 409 })));
+
+    expect(await submitSignup(inputs)).toEqual({ ok: false, errors });
+  });
+
+  /**
+   * Verifies that rate-limited and failed responses throw.
+   */
+  it('should throw for rate-limited and failed responses', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'Retry-After': '5' } }))
+        .mockResolvedValueOnce(Response.json({ error: 'Bad request' }, { status: 400 }))
+    );
+
+    await expect(submitSignup(inputs)).rejects.toBeInstanceOf(RateLimitError);
+    await expect(submitSignup(inputs)).rejects.toThrow('Signup failed with status 400');
+  });
+
+  /**
+   * Verifies that a body breaking the response contract throws instead of being trusted.
+   */
+  it('should throw for malformed responses', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValueOnce(Response.json({ email: 42 }, { status: 201 }))
+        .mockResolvedValueOnce(Response.json({ errors: { email: ['taken'] } }, { status: 409 }))
+    );
+
+    await expect(submitSignup(inputs)).rejects.toThrow('Signup failed with status 201');
+    await expect(submitSignup(inputs)).rejects.toThrow('Signup failed with status 409');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import { createSignupDraftStore } from '../signup-draft';
+import { getFieldStep } from '../signup-steps';
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: vi.fn((key: string) => items.get(key) ?? null),
+    setItem: vi.fn((key: string, value: string) => void items.set(key, value)),
+    removeItem: vi.fn((key: string) => void items.delete(key)),
+  };
+};
+
+/**
+ * Test suite for the signup draft store.
+ * Drafts keep the non-sensitive values of an in-progress signup across reloads.
+ */
+describe('createSignupDraftStore', () => {
+  /**
+   * Verifies that saved values are restored, without the passwords.
+   */
+  it('should save and restore values without passwords', () => {
+    const storage = createStorage();
+    const drafts = createSignupDraftStore(storage);
+
+    drafts.save({
+      name: 'Jane',
+      username: 'jane',
+      email: 'jane@example.com',
+      password: 'Secret123',
+      confirmPassword: 'Secret123',
+      newsletter: true,
+    });
+
+    expect(storage.setItem.mock.calls[0][1]).not.toContain('Secret123');
+    expect(createSignupDraftStore(storage).load()).toEqual({
+      name: 'Jane',
+      username: 'jane',
+      email: 'jane@example.com',
+      newsletter: true,
+    });
+  });
+
+  /**
+   * Verifies that corrupt drafts and storage failures are ignored.
+   */
+  it('should ignore corrupt drafts and storage failures', () => {
+    const storage = createStorage();
+    const drafts = createSignupDraftStore(storage);
+
+    storage.setItem('signup-draft', '{not json');
+    expect(drafts.load()).toBeNull();
+
+    storage.setItem('signup-draft', JSON.stringify({ name: 42 }));
+    expect(drafts.load()).toBeNull();
+
+    storage.setItem.mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    expect(() => drafts.save({ name: 'Jane' })).not.toThrow();
+  });
+
+  /**
+   * Verifies that clearing removes the draft.
+   */
+  it('should clear the draft', () => {
+    const drafts = createSignupDraftStore(createStorage());
+
+    drafts.save({ name: 'Jane' });
+    drafts.clear();
+
+    expect(drafts.load()).toBeNull();
+  });
+});
+
+/**
+ * Test suite for getFieldStep.
+ */
+describe('getFieldStep', () => {
+  /**
+   * Verifies that every field maps to the step it is entered on.
+   */
+  it('should return the step of a field', () => {
+    expect(getFieldStep('confirmPassword')).toBe('account');
+    expect(getFieldStep('name')).toBe('profile');
+    expect(getFieldStep('newsletter')).toBe('preferences');
+  });
+});
@@ -0,0 +1,127 @@
+import * as v from 'valibot';
+import { describe, it, expect } from 'vitest';
+
+import {
+  confirmPasswordSchema,
+  emailSchema,
+  nameSchema,
+  passwordSchema,
+  passwordsMatch,
+  toSignupFieldErrors,
+  usernameSchema,
+} from '../signup-schema';
+
+/**
+ * Test suite for the shared signup rules.
+ * The form and the `/api/signup` route validate with the same field schemas.
+ */
+describe('signup schema', () => {
+  const schema = v.object({ name: nameSchema, username: usernameSchema, email: emailSchema });
+
+  /**
+   * Verifies that valid inputs pass the shared rules.
+   */
+  it('should accept a name and a valid email', () => {
+    expect(
+      v.safeParse(schema, { name: 'Jane', username: 'jane_doe', email: 'jane@example.com' }).success
+    ).toBe(true);
+  });
+
+  /**
+   * Verifies that only the first issue of each field is reported.
+   */
+  it('should collect the first error of every field', () => {
+    const result = v.safeParse(schema, { name: '', username: '', email: '' });
+
+    expect(toSignupFieldErrors(result.issues ?? [])).toEqual({
+      name: 'This field is required',
+      username: 'This field is required',
+      email: 'This field is required',
+    });
+  });
+
+  /**
+   * Verifies the username format rules.
+   */
+  it('should enforce the username format', () => {
+    const message = (username: string) => v.safeParse(usernameSchema, username).issues?.[0].message;
+
+    expect(message('jane_doe42')).toBeUndefined();
+    expect(message('ja')).toBe('Username must be at least 3 characters');
+    expect(message('a'.repeat(21))).toBe('Username must be at most 20 characters');
+    expect(message('1jane')).toBe('Username must start with a letter');
+    expect(message('jane-doe')).toBe('Use only letters, numbers and underscores');
+  });
+
+  /**
+   * Verifies the password length and character class rules.
+   */
+  it('should enforce the password rules', () => {
+    const message = (password: string) => v.safeParse(passwordSchema, password).issues?.[0].message;
+
+    expect(message('Secret123')).toBeUndefined();
+    expect(message('Sec1')).toBe('Password must be at least 8 characters');
+    expect(message(`Aa1${'a'.repeat(126)}`)).toBe('Password must be at most 128 characters');
+    expect(message('SECRET123')).toBe('Include a lowercase letter');
+    expect(message('secret123')).toBe('Include an uppercase letter');
+    expect(message('SecretSecret')).toBe('Include a number');
+  });
+
+  /**
+   * Verifies that a mismatch is reported on the confirmation, even while other fields are invalid.
+   */
+  it('should report mismatching passwords on the confirmation', () => {
+    const passwords = v.pipe(
+      v.object({
+        name: nameSchema,
+        password: passwordSchema,
+        confirmPassword: confirmPasswordSchema,
+      }),
+      v.forward(
+        v.partialCheck(
+          [['password'], ['confirmPassword']],
+          passwordsMatch,
+          'Passwords do not match'
+        ),
+        ['confirmPassword']
+      )
+    );
+    const errors = (input: object) =>
+      toSignupFieldErrors(v.safeParse(passwords, { name: '', ...input }).issues ?? []);
+
+    expect(errors({ password: 'Secret123', confirmPassword: 'Secret123' })).toEqual({
+      name: 'This field is required',
+    });
+    expect(errors({ password: 'Secret123', confirmPassword: 'Secret124' })).toEqual({
+      name: 'This field is required',
+      confirmPassword: 'Passwords do not match',
+    });
+    expect(errors({ password: 'Secret123', confirmPassword: '' })).toEqual({
+      name: 'This field is required',
+      confirmPassword: 'This field is required',
+    });
+  });
+
+  /**
+   * Verifies that messages follow the language of the parse config.
+   */
+  it('should translate messages into the parse language', () => {
+    const result = v.safeParse(schema, { name: '', username: 'ja', email: 'nope' }, { lang: 'ja' });
+
+    expect(toSignupFieldErrors(result.issues ?? [])).toEqual({
+      name: 'この項目は必須です',
+      username: 'ユーザー名は3文字以上で入力してください',
+      email: '有効なメールアドレスの形式で入力してください',
+    });
+  });
+
+  /**
+   * Verifies that issues without a known field are ignored.
+   */
+  it('should ignore issues outside of the signup fields', () => {
+    const result = v.safeParse(schema, null);
+
+    expect(result.success).toBe(false);
+    expect(toSignupFieldErrors(result.issues ?? [])).toEqual({});
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+
+import { createUsernameAvailability } from '../username-availability';
+import { createMemoryValueStore } from '../value-store';
+
+/**
+ * Test suite for createUsernameAvailability.
+ * Usernames are compared case-insensitively and reserved names can never be registered.
+ */
+describe('createUsernameAvailability', () => {
+  /**
+   * Verifies that taken usernames are reported regardless of case.
+   */
+  it('should report taken usernames case-insensitively', async () => {
+    const availability = createUsernameAvailability({ store: createMemoryValueStore(['jane']) });
+
+    expect(await availability.check(' Jane ')).toMatchObject({
+      value: 'jane',
+      available: false,
+      reason: 'registered',
+    });
+    expect(await availability.check('john')).toEqual({ value: 'john', available: true });
+  });
+
+  /**
+   * Verifies that reserved usernames are unavailable and cannot be registered.
+   */
+  it('should reject reserved usernames', async () => {
+    const availability = createUsernameAvailability({
+      store: createMemoryValueStore(),
+      reserved: ['Admin'],
+    });
+
+    expect(await availability.check('ADMIN')).toMatchObject({
+      available: false,
+      reason: 'reserved',
+    });
+    expect(await availability.register('admin')).toBe(false);
+  });
+
+  /**
+   * Verifies that taken usernames come with available alternatives that pass the format rules.
+   */
+  it('should suggest available alternatives', async () => {
+    const availability = createUsernameAvailability({
+      store: createMemoryValueStore(['jane', 'jane1', 'jane_2']),
+    });
+
+    expect(await availability.check('jane')).toMatchObject({
+      suggestions: ['jane_1', 'jane2', 'jane3'],
+    });
+    expect(
+      await createUsernameAvailability({
+        store: createMemoryValueStore(['abcdefghijklmnopqrst']),
+        suggestionCount: 2,
+      }).check('abcdefghijklmnopqrst')
+    ).toMatchObject({ suggestions: ['abcdefghijklmnopqrs1', 'abcdefghijklmnopqr_1'] });
+  });
+
+  /**
+   * Verifies that a registered username can be released again.
+   */
+  it('should register and unregister usernames', async () => {
+    const availability = createUsernameAvailability({ store: createMemoryValueStore() });
+
+    expect(await availability.register('Jane')).toBe(true);
+    expect(await availability.register('jane')).toBe(false);
+    expect(await availability.unregister('JANE')).toBe(true);
+    expect(await availability.check('jane')).toMatchObject({ available: true });
+  });
+});
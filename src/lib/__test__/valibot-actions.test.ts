@@ -0,0 +1,160 @@
+import * as v from 'valibot';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { checkResultAsync, debouncedCheckAsync } from '../valibot-actions';
+
+/**
+ * Test suite for checkResultAsync.
+ * The action accepts plain booleans or rich validation results from its requirement.
+ */
+describe('checkResultAsync', () => {
+  /**
+   * Verifies that valid inputs pass without issues.
+   */
+  it('should pass when the requirement is valid', async () => {
+    const schema = v.pipeAsync(
+      v.string(),
+      checkResultAsync(async () => ({ valid: true }))
+    );
+
+    const result = await v.safeParseAsync(schema, 'test');
+
+    expect(result.success).toBe(true);
+  });
+
+  /**
+   * Verifies that the message of a rich result becomes the issue message.
+   */
+  it('should use the message returned by the requirement', async () => {
+    const schema = v.pipeAsync(
+      v.string(),
+      checkResultAsync(
+        async () => ({ valid: false, message: 'Domain is blocked', code: 'blocked' }),
+        'Not available'
+      )
+    );
+
+    const result = await v.safeParseAsync(schema, 'test');
+
+    expect(result.issues?.[0].message).toBe('Domain is blocked');
+    expect(result.issues?.[0].type).toBe('check_result');
+  });
+
+  /**
+   * Verifies that boolean results and results without a message fall back to the action message.
+   */
+  it('should fall back to the action message', async () => {
+    const booleanSchema = v.pipeAsync(
+      v.string(),
+      checkResultAsync(async () => false, 'Not available')
+    );
+    const resultSchema = v.pipeAsync(
+      v.string(),
+      checkResultAsync(async () => ({ valid: false }), 'Not available')
+    );
+
+    expect((await v.safeParseAsync(booleanSchema, 'test')).issues?.[0].message).toBe(
+      'Not available'
+    );
+    expect((await v.safeParseAsync(resultSchema, 'test')).issues?.[0].message).toBe(
+      'Not available'
+    );
+  });
+
+  /**
+   * Verifies that getMessage derives the issue message from the result and the parse language.
+   */
+  it('should prefer the message from getMessage', async () => {
+    const schema = v.pipeAsync(
+      v.string(),
+      checkResultAsync(
+        async () => ({ valid: false, message: 'Domain is blocked', code: 'blocked' }),
+        'Not available',
+        (result, lang) => (lang === 'ja' ? `ja:${result.code}` : undefined)
+      )
+    );
+
+    expect((await v.safeParseAsync(schema, 'test', { lang: 'ja' })).issues?.[0].message).toBe(
+      'ja:blocked'
+    );
+    expect((await v.safeParseAsync(schema, 'test')).issues?.[0].message).toBe('Domain is blocked');
+  });
+
+  /**
+   * Verifies that the requirement is skipped when an earlier schema failed.
+   */
+  it('should not run the requirement for untyped input', async () => {
+    const requirement = vi.fn().mockResolvedValue(true);
+    const schema = v.pipeAsync(v.string(), checkResultAsync(requirement));
+
+    await v.safeParseAsync(schema, 123);
+
+    expect(requirement).not.toHaveBeenCalled();
+  });
+});
+
+/**
+ * Test suite for debouncedCheckAsync.
+ * The action debounces and caches its validation across parse calls.
+ */
+describe('debouncedCheckAsync', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Verifies that parses within the delay share one validation and resolve with its result.
+   */
+  it('should debounce validation across parse calls', async () => {
+    const validate = vi.fn().mockResolvedValue({ valid: false, message: 'Already registered' });
+    const schema = v.pipeAsync(
+      v.string(),
+      debouncedCheckAsync(validate, { delay: 100, message: 'Not available' })
+    );
+
+    const parse1 = v.safeParseAsync(schema, 'a@example.com');
+    const parse2 = v.safeParseAsync(schema, 'b@example.com');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(validate).toHaveBeenCalledTimes(1);
+    expect(validate).toHaveBeenCalledWith('b@example.com', expect.any(AbortSignal));
+    expect((await parse1).issues?.[0].message).toBe('Already registered');
+    expect((await parse2).issues?.[0].type).toBe('debounced_check');
+  });
+
+  /**
+   * Verifies that cached results are reused by later parses.
+   */
+  it('should reuse cached results', async () => {
+    const validate = vi.fn().mockResolvedValue(true);
+    const schema = v.pipeAsync(v.string(), debouncedCheckAsync(validate, { delay: 100 }));
+
+    const parse = v.safeParseAsync(schema, 'test');
+    await vi.advanceTimersByTimeAsync(100);
+    expect((await parse).success).toBe(true);
+
+    expect((await v.safeParseAsync(schema, 'test')).success).toBe(true);
+    expect(validate).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * Verifies that every action owns its validator, so one never settles the calls of another.
+   */
+  it('should keep a separate validator per action', async () => {
+    const validate = vi.fn(async (value: string) => value === 'free');
+    const action1 = debouncedCheckAsync(validate, { delay: 100 });
+    const action2 = debouncedCheckAsync(validate, { delay: 100 });
+    expect(action2.validator).not.toBe(action1.validator);
+
+    const parse1 = v.safeParseAsync(v.pipeAsync(v.string(), action1), 'free');
+    const parse2 = v.safeParseAsync(v.pipeAsync(v.string(), action2), 'taken');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect((await parse1).success).toBe(true);
+    expect((await parse2).success).toBe(false);
+  });
+});
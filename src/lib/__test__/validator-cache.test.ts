@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { createValidatorCache } from '../validator-cache';
+
+/**
+ * Test suite for createValidatorCache.
+ * The cache provides least-recently-used eviction and per-entry expiry for validation results.
+ */
+describe('createValidatorCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Verifies that stored values can be read back.
+   */
+  it('should store and return values', () => {
+    const cache = createValidatorCache<string>();
+
+    cache.set('a', true);
+    cache.set('b', false);
+
+    expect(cache.get('a')).toBe(true);
+    expect(cache.get('b')).toBe(false);
+    expect(cache.get('c')).toBeUndefined();
+    expect(cache.size).toBe(2);
+  });
+
+  /**
+   * Verifies that the least recently used entry is evicted, not the first inserted one.
+   */
+  it('should evict the least recently used entry', () => {
+    const cache = createValidatorCache<string>({ maxSize: 2 });
+
+    cache.set('a', true);
+    cache.set('b', true);
+    cache.get('a');
+    cache.set('c', true);
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.has('c')).toBe(true);
+  });
+
+  /**
+   * Verifies that overwriting an existing key does not evict another entry.
+   */
+  it('should not evict when overwriting an existing key', () => {
+    const cache = createValidatorCache<string>({ maxSize: 2 });
+
+    cache.set('a', true);
+    cache.set('b', true);
+    cache.set('a', false);
+
+    expect(cache.size).toBe(2);
+    expect(cache.get('a')).toBe(false);
+    expect(cache.get('b')).toBe(true);
+  });
+
+  /**
+   * Verifies that entries expire after the ttl.
+   */
+  it('should expire entries after the ttl', () => {
+    const cache = createValidatorCache<string>({ ttl: 1000 });
+
+    cache.set('a', true);
+    vi.advanceTimersByTime(999);
+    expect(cache.get('a')).toBe(true);
+
+    vi.advanceTimersByTime(1);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  /**
+   * Verifies that entries can be removed individually or all at once.
+   */
+  it('should delete and clear entries', () => {
+    const cache = createValidatorCache<string>();
+
+    cache.set('a', true);
+    cache.set('b', true);
+
+    expect(cache.delete('a')).toBe(true);
+    expect(cache.has('a')).toBe(false);
+
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+
+  /**
+   * Verifies that entries are persisted to storage and restored by a new cache.
+   */
+  it('should persist entries to storage', () => {
+    const storage = new Map<string, string>();
+    const fakeStorage = {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => void storage.set(key, value),
+      removeItem: (key: string) => void storage.delete(key),
+    };
+
+    const cache = createValidatorCache<string>({ storage: fakeStorage, storageKey: 'test' });
+    cache.set('a', true);
+    cache.set('b', false);
+
+    const restored = createValidatorCache<string>({ storage: fakeStorage, storageKey: 'test' });
+    expect(restored.get('a')).toBe(true);
+    expect(restored.get('b')).toBe(false);
+
+    restored.clear();
+    expect(storage.has('test')).toBe(false);
+  });
+
+  /**
+   * Verifies that expired entries are not restored and corrupt storage is ignored.
+   */
+  it('should skip expired and corrupt persisted entries', () => {
+    sessionStorage.clear();
+
+    const cache = createValidatorCache<string>({ ttl: 1000, storage: sessionStorage });
+    cache.set('a', true);
+    vi.advanceTimersByTime(1000);
+
+    expect(createValidatorCache<string>({ storage: sessionStorage }).has('a')).toBe(false);
+
+    sessionStorage.setItem('validator-cache', '{not json');
+    expect(createValidatorCache<string>({ storage: sessionStorage }).size).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+export type AdaptiveDelayOptions = {
+  minDelay?: number;
+  maxDelay?: number;
+  sampleSize?: number;
+};
+
+export type AdaptiveDelay = {
+  recordCall: (now: number) => void;
+  recordValidation: (duration: number, failed: boolean) => void;
+  getDelay: (fallback: number) => number;
+};
+
+const average = (samples: number[]) =>
+  samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+
+const median = (samples: number[]) => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Creates a debounce delay that follows the typing cadence of the user and the latency of the
+ * validate function, instead of a fixed number of milliseconds.
+ *
+ * The delay is twice the median gap between recent calls, so a fast typist gets feedback soon
+ * after they stop while a slow one is not checked mid-word. It is stretched by half the average
+ * duration of recent validations, and doubled for every consecutive failed validation, so a slow
+ * or failing endpoint receives fewer calls. The result is always kept within the bounds.
+ *
+ * @param options - Configuration options for the delay.
+ * @param options.minDelay - The lower bound in milliseconds. Defaults to 150ms.
+ * @param options.maxDelay - The upper bound in milliseconds. Defaults to 1000ms.
+ *   Gaps longer than this are pauses between bursts, not typing, and are ignored.
+ * @param options.sampleSize - How many recent gaps and validations are considered. Defaults to 5.
+ * @returns An {@link AdaptiveDelay} with:
+ *   - `recordCall`: Records a call at the given epoch milliseconds.
+ *   - `recordValidation`: Records how long a validation took and whether it failed.
+ *   - `getDelay`: Returns the current delay, or `fallback` (clamped) until a gap has been recorded.
+ *
+ * @example
+ * ```typescript
+ * const adaptive = createAdaptiveDelay({ minDelay: 200, maxDelay: 800 });
+ * adaptive.recordCall(0);
+ * adaptive.recordCall(120);
+ * adaptive.getDelay(500); // 240
+ * ```
+ */
+export function createAdaptiveDelay(options: AdaptiveDelayOptions = {}): AdaptiveDelay {
+  const { minDelay = 150, maxDelay = 1000, sampleSize = 5 } = options;
+
+  let lastCall: number | null = null;
+  let gaps: number[] = [];
+  let durations: number[] = [];
+  let consecutiveFailures = 0;
+
+  const clamp = (delay: number) => Math.min(Math.max(delay, minDelay), maxDelay);
+
+  return {
+    recordCall: (now) => {
+      if (lastCall !== null && now - lastCall <= maxDelay) {
+        gaps = [...gaps, now - lastCall].slice(-sampleSize);
+      }
+      lastCall = now;
+    },
+    recordValidation: (duration, failed) => {
+      durations = [...durations, duration].slice(-sampleSize);
+      consecutiveFailures = failed ? consecutiveFailures + 1 : 0;
+    },
+    getDelay: (fallback) => {
+      const cadence = gaps.length > 0 ? median(gaps) * 2 : fallback;
+      const latency = durations.length > 0 ? average(durations) / 2 : 0;
+      return Math.round(clamp((cadence + latency) * 2 ** consecutiveFailures));
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import * as v from 'valibot';
+
+import { getEmailAvailability } from './email-availability';
+import { emailSchema, usernameSchema } from './signup-schema';
+import { getUsernameAvailability } from './username-availability';
+
+import type { AvailabilityField, AvailabilityResponse } from './availability-contract';
+
+export type AvailabilityChecker = {
+  /** The format rules a value must pass before it is looked up. */
+  schema: v.GenericSchema<string, string>;
+  check: (value: string) => Promise<AvailabilityResponse>;
+};
+
+/**
+ * The checker of every field served by `/api/availability/[field]`. To make another unique field
+ * checkable, add it to `availabilityFieldSchema` and register its checker here.
+ */
+export const availabilityCheckers: Record<AvailabilityField, AvailabilityChecker> = {
+  email: {
+    schema: emailSchema,
+    check: (email) => getEmailAvailability().check(email),
+  },
+  username: {
+    schema: usernameSchema,
+    check: (username) => getUsernameAvailability().check(username),
+  },
+};
@@ -0,0 +1,124 @@
+import * as v from 'valibot';
+
+import {
+  availabilityResponseSchema,
+  batchAvailabilityResponseSchema,
+  maxBatchSize,
+  toAvailabilityResult,
+  type AvailabilityField,
+} from './availability-contract';
+import { createBatchValidator } from './batch-validator';
+
+import type { ValidationResult } from './validation-result';
+
+/**
+ * Thrown when the `/api` route rejects a check with `429 Too Many Requests`.
+ * `retryAfter` is how long to wait in milliseconds, taken from the `Retry-After` header.
+ */
+export class RateLimitError extends Error {
+  readonly retryAfter: number;
+
+  constructor(retryAfter: number) {
+    super('Too many availability checks');
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date, into milliseconds.
+ * Falls back to one second when the header is missing or invalid.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number {
+  if (header !== null && /^\d+$/.test(header.trim())) {
+    return Number(header) * 1000;
+  }
+
+  const date = header === null ? NaN : Date.parse(header);
+  return Number.isNaN(date) ? 1000 : Math.max(date - now, 0);
+}
+
+/**
+ * Throws a {@link RateLimitError} for `429` responses and an `Error` for any other failure,
+ * so that they are retried instead of being mistaken for an unavailable email.
+ */
+function assertOk(response: Response) {
+  if (response.status === 429) {
+    throw new RateLimitError(parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  if (!response.ok) {
+    throw new Error(`Availability check failed with status ${response.status}`);
+  }
+}
+
+/**
+ * Use as the `getRetryDelay` option of a debounced validator to wait for as long as the server
+ * asks before retrying a rate-limited check.
+ */
+export const getAvailabilityRetryDelay = (error: unknown) =>
+  error instanceof RateLimitError ? error.retryAfter : undefined;
+
+/**
+ * Checks with the `/api/availability/[field]` route whether a value is still available.
+ * Throws when the response breaks the availability contract, e.g. an HTML error page.
+ */
+export async function checkAvailability(
+  field: AvailabilityField,
+  value: string,
+  signal?: AbortSignal
+): Promise<ValidationResult> {
+  const url = new URL(`/api/availability/${field}`, window.location.origin);
+  url.searchParams.set('value', value);
+  const response = await fetch(url, { signal });
+  assertOk(response);
+  return toAvailabilityResult(v.parse(availabilityResponseSchema, await response.json()), field);
+}
+
+/**
+ * Checks whether an email is still available. See {@link checkAvailability}.
+ */
+export const checkEmailAvailability = (email: string, signal?: AbortSignal) =>
+  checkAvailability('email', email, signal);
+
+/**
+ * Checks whether a username is still available. See {@link checkAvailability}.
+ */
+export const checkUsernameAvailability = (username: string, signal?: AbortSignal) =>
+  checkAvailability('username', username, signal);
+
+/**
+ * Checks many emails with a single request to the batch form of the `/api` route.
+ * The results are in the same order as `emails`. An email the route rejected as malformed
+ * becomes an invalid result with the route's message and the `invalid` code.
+ */
+export async function checkEmailsAvailability(
+  emails: string[],
+  signal: AbortSignal
+): Promise<ValidationResult[]> {
+  const url = new URL('/api', window.location.origin);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ emails }),
+    signal,
+  });
+  assertOk(response);
+  const { results } = v.parse(batchAvailabilityResponseSchema, await response.json());
+  if (results.length !== emails.length) {
+    throw new Error(`Expected ${emails.length} availability results, got ${results.length}`);
+  }
+  return results.map((item) =>
+    'error' in item
+      ? { valid: false, message: item.error, code: 'invalid' }
+      : toAvailabilityResult(item.result, 'email')
+  );
+}
+
+/**
+ * A validate function that batches the availability checks of every validator using it,
+ * e.g. one per row of a bulk invite form.
+ */
+export const batchedEmailAvailability = createBatchValidator(checkEmailsAvailability, {
+  delay: 10,
+  maxBatchSize,
+});
@@ -0,0 +1,128 @@
+import * as v from 'valibot';
+
+import { defaultLocale, resolveLocale, translate, type Locale } from './i18n';
+import { emailSchema } from './signup-schema';
+
+import type { ValidationResult } from './validation-result';
+
+/**
+ * The fields whose availability can be checked with `GET /api/availability/[field]?value=`.
+ * Each one has a checker on the server (see `availabilityCheckers`).
+ *
+ * The schemas in this module are the contract of the availability routes. The routes validate
+ * their input with them and the client parses every response with them, so a change on one side
+ * that the other does not expect fails loudly instead of reading as "available".
+ */
+export const availabilityFieldSchema = v.picklist(['email', 'username']);
+
+/**
+ * `GET /api?email=`: a single email, held to the same format rules as the signup form.
+ */
+export const availabilityRequestSchema = v.object({ email: emailSchema });
+
+/**
+ * The most emails `POST /api` accepts in one request. Every email costs a token of the
+ * availability rate limit, so this matches the burst it allows.
+ */
+export const maxBatchSize = 30;
+
+/**
+ * `POST /api`: a list of emails to check at once. Entries are validated one by one, so a
+ * malformed entry gets its own error instead of failing the whole request.
+ */
+export const batchAvailabilityRequestSchema = v.object({ emails: v.array(v.unknown()) });
+
+/**
+ * Why a value cannot be used.
+ *
+ * - `registered`: An account already uses the value (after normalization).
+ * - `reserved`: The value is kept for the system, e.g. the username `admin`.
+ * - `disposable_domain`, `blocked_domain`, `domain_not_allowed`: The domain policy rejects
+ *   the email's domain, whether or not an account uses it. See `DomainPolicyReason`.
+ */
+export const unavailableReasonSchema = v.picklist([
+  'registered',
+  'reserved',
+  'disposable_domain',
+  'blocked_domain',
+  'domain_not_allowed',
+]);
+
+/**
+ * The answer for one value. `value` is the normalized form that was looked up. Checkers of
+ * handles such as usernames may add `suggestions`: similar values that were available.
+ */
+export const availabilityResponseSchema = v.variant('available', [
+  v.object({ value: v.string(), available: v.literal(true) }),
+  v.object({
+    value: v.string(),
+    available: v.literal(false),
+    reason: unavailableReasonSchema,
+    suggestions: v.optional(v.array(v.string())),
+  }),
+]);
+
+/**
+ * The outcome for one entry of a batch: its `result`, or the `error` that kept it from being
+ * checked. `input` is the entry as sent, before normalization.
+ */
+export const batchItemSchema = v.union([
+  v.object({ input: v.unknown(), result: availabilityResponseSchema }),
+  v.object({ input: v.unknown(), error: v.string() }),
+]);
+
+export const batchAvailabilityResponseSchema = v.object({
+  results: v.array(batchItemSchema),
+});
+
+/**
+ * The body of every `4xx` response of the routes.
+ */
+export const errorResponseSchema = v.object({ error: v.string() });
+
+export type AvailabilityField = v.InferOutput<typeof availabilityFieldSchema>;
+export type UnavailableReason = v.InferOutput<typeof unavailableReasonSchema>;
+export type AvailabilityResponse = v.InferOutput<typeof availabilityResponseSchema>;
+export type BatchItem = v.InferOutput<typeof batchItemSchema>;
+export type BatchAvailabilityResponse = v.InferOutput<typeof batchAvailabilityResponseSchema>;
+export type ErrorResponse = v.InferOutput<typeof errorResponseSchema>;
+
+/**
+ * Explains in `locale` why a value of `field` is unavailable.
+ */
+export const getUnavailableMessage = (
+  field: AvailabilityField,
+  reason: UnavailableReason,
+  locale: Locale = defaultLocale
+) => translate(locale, `${field}.${reason}`);
+
+/**
+ * Converts an {@link AvailabilityResponse} for `field` into a `ValidationResult` whose `code` is
+ * the reason and whose `message` is in `locale`.
+ */
+export function toAvailabilityResult(
+  response: AvailabilityResponse,
+  field: AvailabilityField = 'email',
+  locale: Locale = defaultLocale
+): ValidationResult {
+  if (response.available) {
+    return { valid: true };
+  }
+  return {
+    valid: false,
+    message: getUnavailableMessage(field, response.reason, locale),
+    code: response.reason,
+    ...(response.suggestions?.length ? { suggestions: response.suggestions } : {}),
+  };
+}
+
+/**
+ * Creates a `getMessage` for the Valibot check actions that translates the reason of an
+ * availability result into the `lang` of the parse config. Results are cached in the language
+ * they were checked in, so this keeps their issues in the current one.
+ */
+export const localizeAvailability =
+  (field: AvailabilityField) => (result: ValidationResult, lang: string | undefined) =>
+    v.is(unavailableReasonSchema, result.code)
+      ? getUnavailableMessage(field, result.code, resolveLocale(lang))
+      : undefined;
@@ -0,0 +1,151 @@
+import type { ValidateFn } from './debounced-validator';
+import type { ValidationResult } from './validation-result';
+
+export type ValidateManyFn<T> = (
+  values: T[],
+  signal: AbortSignal
+) => Promise<Array<boolean | ValidationResult>>;
+
+type Options<T> = {
+  delay?: number;
+  maxBatchSize?: number;
+  getKey?: (value: T) => unknown;
+};
+
+type Request<T> = {
+  value: T;
+  key: unknown;
+  signal: AbortSignal;
+  resolve: (result: boolean | ValidationResult) => void;
+  reject: (reason: unknown) => void;
+};
+
+/**
+ * Creates a validate function that collects the values of many callers and validates them with
+ * a single call to `validateMany`, like DataLoader. Pass it as the `validate` function of several
+ * debounced validators (e.g. one per row of a bulk invite form): each validator keeps its own
+ * debouncing and cache, and only the values that reach the network are batched.
+ *
+ * @typeParam T - The type of the value to be validated.
+ * @param validateMany - Validates a list of unique values and returns one result per value, in order.
+ *   It receives an `AbortSignal` that is aborted once every caller of the batch has been aborted.
+ * @param options - Configuration options for the batch.
+ * @param options.delay - How long to collect values in milliseconds before sending a batch.
+ *   Defaults to 0 (values requested in the same tick).
+ * @param options.maxBatchSize - The maximum number of values per batch. A full batch is sent immediately.
+ *   Defaults to 100.
+ * @param options.getKey - Derives the key used to de-duplicate values within a batch.
+ *   Defaults to the value itself.
+ * @returns A validate function for {@link createDebouncedValidator} or `useDebouncedValidator`.
+ *
+ * @example
+ * ```typescript
+ * const checkEmail = createBatchValidator(async (emails: string[], signal: AbortSignal) => {
+ *   const response = await fetch('/api', { method: 'POST', body: JSON.stringify({ emails }), signal });
+ *   const { results } = await response.json();
+ *   return results;
+ * });
+ *
+ * // In every row of the bulk invite form
+ * const { debouncedValidator } = useDebouncedValidator(checkEmail);
+ * ```
+ *
+ * @remarks
+ * - Callers whose signal is aborted before the batch is sent are removed from it, and their
+ *   promise rejects with the abort reason.
+ * - If `validateMany` throws or returns the wrong number of results, every caller of that
+ *   batch rejects, so each validator handles the error with its own retry options.
+ */
+export function createBatchValidator<T>(
+  validateMany: ValidateManyFn<T>,
+  options: Options<T> = {}
+): ValidateFn<T> {
+  const { delay = 0, maxBatchSize = 100, getKey = (value: T) => value } = options;
+
+  let queue: Array<Request<T>> = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const runBatch = async (requests: Array<Request<T>>) => {
+    const live = requests.filter((request) => !request.signal.aborted);
+    if (live.length === 0) {
+      return;
+    }
+
+    const values: T[] = [];
+    const indexes = new Map<unknown, number>();
+    for (const request of live) {
+      if (!indexes.has(request.key)) {
+        indexes.set(request.key, values.length);
+        values.push(request.value);
+      }
+    }
+
+    // Abort the batch only once nobody is waiting for it anymore
+    const controller = new AbortController();
+    let waiting = live.length;
+    for (const request of live) {
+      request.signal.addEventListener(
+        'abort',
+        () => {
+          request.reject(request.signal.reason);
+          waiting -= 1;
+          if (waiting === 0) {
+            controller.abort();
+          }
+        },
+        { once: true }
+      );
+    }
+
+    try {
+      const results = await validateMany(values, controller.signal);
+      if (results.length !== values.length) {
+        throw new Error(
+          `Expected ${values.length} results from validateMany, got ${results.length}`
+        );
+      }
+      live.forEach((request) => request.resolve(results[indexes.get(request.key)!]));
+    } catch (error) {
+      live.forEach((request) => request.reject(error));
+    }
+  };
+
+  const dispatch = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const requests = queue;
+    queue = [];
+    runBatch(requests);
+  };
+
+  return (value, signal) =>
+    new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const request: Request<T> = { value, key: getKey(value), signal, resolve, reject };
+      queue.push(request);
+
+      // Drop the value from the queue if its caller gives up before the batch is sent
+      signal.addEventListener(
+        'abort',
+        () => {
+          if (queue.includes(request)) {
+            queue = queue.filter((queued) => queued !== request);
+            reject(signal.reason);
+          }
+        },
+        { once: true }
+      );
+
+      if (queue.length >= maxBatchSize) {
+        dispatch();
+      } else if (!timer) {
+        timer = setTimeout(dispatch, delay);
+      }
+    });
+}
@@ -0,0 +1,619 @@
+import { createAdaptiveDelay, type AdaptiveDelayOptions } from './adaptive-delay';
+import { toValidationResult, type ValidationResult } from './validation-result';
+import { createValidatorCache, type ValidatorCache } from './validator-cache';
+
+type ValidateResult = boolean | ValidationResult | Promise<boolean | ValidationResult>;
+
+export type ValidateFn<T> = (value: T, signal: AbortSignal) => ValidateResult;
+
+/**
+ * The lifecycle of a debounced validation.
+ *
+ * - `idle`: Nothing has been checked yet, or the pending check was cancelled.
+ * - `debouncing`: A value is waiting for the debounce delay to elapse.
+ * - `validating`: The validate function is running for `value`.
+ * - `valid` / `invalid`: The validate function settled with a (possibly negated) result.
+ * - `error`: The validate function threw, so the result is unknown.
+ */
+export type ValidationStatus = 'idle' | 'debouncing' | 'validating' | 'valid' | 'invalid' | 'error';
+
+export type ValidationState<T> = {
+  status: ValidationStatus;
+  /** The value the status applies to. */
+  value: T | undefined;
+  /** When the current status was entered, in epoch milliseconds. */
+  updatedAt: number | null;
+  /** When the last call to the validate function started. */
+  startedAt: number | null;
+  /** When the last call to the validate function settled. */
+  settledAt: number | null;
+  /** The (possibly negated) result when the status is `valid` or `invalid`. */
+  result: ValidationResult | undefined;
+  /** The error thrown by the last attempt when the status is `error`. */
+  error: unknown;
+};
+
+const initialState = {
+  status: 'idle',
+  value: undefined,
+  updatedAt: null,
+  startedAt: null,
+  settledAt: null,
+  result: undefined,
+  error: undefined,
+} as const satisfies ValidationState<unknown>;
+
+/**
+ * Telemetry emitted through the `onEvent` option. Every event carries the value it applies to
+ * and a `timestamp` in epoch milliseconds.
+ *
+ * - `scheduled`: A value started waiting for the debounce delay (`delay` is the actual wait).
+ * - `superseded`: A newer value replaced a debouncing or in-flight one before it settled.
+ * - `cache-hit` / `cache-miss`: The cache was consulted for the value.
+ * - `validate-start` / `validate-end`: One attempt of the validate function; `duration` is in milliseconds.
+ * - `error`: An attempt threw. `willRetry` tells whether another attempt follows.
+ * - `unmount-flush`: The validator was disposed while a value was still debouncing or validating.
+ */
+export type ValidatorEvent<T> = { value: T; timestamp: number } & (
+  | { type: 'scheduled'; delay: number }
+  | { type: 'superseded'; phase: 'debouncing' | 'validating' }
+  | { type: 'cache-hit'; key: unknown }
+  | { type: 'cache-miss'; key: unknown }
+  | { type: 'validate-start'; attempt: number }
+  | { type: 'validate-end'; attempt: number; duration: number; result: ValidationResult }
+  | { type: 'error'; attempt: number; duration: number; error: unknown; willRetry: boolean }
+  | { type: 'unmount-flush'; phase: 'debouncing' | 'validating'; pending: number }
+);
+
+/**
+ * Running counters since the validator was created.
+ */
+export type ValidatorStats = {
+  /** Calls to `validate` or `check`. */
+  calls: number;
+  cacheHits: number;
+  cacheMisses: number;
+  /** Calls to the validate function, retries included. */
+  validations: number;
+  /** Attempts that threw. */
+  errors: number;
+  /** Calls that settled without a validate call of their own: cache hits, default values and debounced calls. */
+  avoided: number;
+};
+
+export type DebouncedValidatorOptions<T> = {
+  delay?: number;
+  adaptiveDelay?: boolean | AdaptiveDelayOptions;
+  leading?: boolean;
+  maxWait?: number;
+  negate?: boolean;
+  defaultValue?: T | undefined;
+  maxCacheSize?: number;
+  cacheTtl?: number;
+  getCacheKey?: (value: T) => unknown;
+  cache?: ValidatorCache<unknown, ValidationResult>;
+  maxAttempts?: number;
+  retryDelay?: number;
+  backoffFactor?: number;
+  maxRetryDelay?: number;
+  getRetryDelay?: (error: unknown, attempt: number) => number | undefined;
+  onError?: (error: unknown, value: T) => void;
+  onEvent?: (event: ValidatorEvent<T>) => void;
+};
+
+export type DebouncedValidator<T> = {
+  validate: (value: T) => Promise<boolean>;
+  check: (value: T) => Promise<ValidationResult>;
+  flush: () => Promise<ValidationResult | undefined>;
+  cancel: () => void;
+  reset: () => void;
+  invalidate: (value: T) => void;
+  dispose: () => void;
+  getState: () => ValidationState<T>;
+  subscribe: (listener: () => void) => () => void;
+  getStats: () => ValidatorStats;
+  configure: (validate: ValidateFn<T>, options: DebouncedValidatorOptions<T>) => void;
+};
+
+/**
+ * Resolves after `ms` milliseconds, or immediately once `signal` is aborted.
+ */
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+/**
+ * Creates a debounced validator that batches consecutive calls, ensures all promises resolve
+ * with the final result, and prevents race conditions. It has no dependency on React, so it
+ * can be used in plain Valibot schemas, on the server or in a web worker.
+ *
+ * Key features:
+ * - Debounces validations within the specified delay, with optional leading calls and `maxWait`.
+ *   The delay can adapt to the typing cadence and the latency of the validate function.
+ * - Caches results per value with least-recently-used eviction and optional expiry.
+ * - Batches multiple calls during the debounce period and resolves all with the final result.
+ * - Prevents race conditions by ensuring only the latest value is processed.
+ * - Aborts in-flight validations via `AbortSignal` when they are superseded or cancelled.
+ * - Retries thrown errors with exponential backoff instead of treating them as invalid.
+ * - Exposes its {@link ValidationState} through `getState` and `subscribe`.
+ *
+ * @typeParam T - The type of the value to be validated. Defaults to `string`.
+ * @param validate - A function that performs the validation on the value. It can be synchronous or asynchronous.
+ *   The function should return `true` for valid values and `false` otherwise, or a `ValidationResult`
+ *   (`{ valid, message, code }`) to explain why a value is invalid. It receives an `AbortSignal`
+ *   as the second argument, which is aborted when a newer value is scheduled (unless `maxWait` started
+ *   the validation) or the validation is cancelled. Pass it to `fetch` to cancel stale requests.
+ * @param options - Configuration options for the validator.
+ * @param options.delay - The debounce delay in milliseconds. Defaults to 500ms.
+ *   Shorter delays improve responsiveness but may increase computation.
+ * @param options.adaptiveDelay - If set, the delay follows the gaps between recent calls and is stretched
+ *   when recent validations were slow or failed (see {@link createAdaptiveDelay}). Pass
+ *   `{ minDelay, maxDelay, sampleSize }` to bound it; `delay` is used until the first gap is known.
+ *   Defaults to `false`. The bounds only apply on creation.
+ * @param options.leading - If `true`, the first call of a burst is validated immediately instead of
+ *   after the delay. Later calls within the delay are still debounced. Defaults to `false`.
+ * @param options.maxWait - The maximum time in milliseconds a value may wait while calls keep coming in.
+ *   Guarantees a result at least every `maxWait` ms during steady typing: a validation started by
+ *   `maxWait` is not aborted by newer values, and settles the calls made before it started. Defaults to no limit.
+ * @param options.negate - If `true`, negates the result of the validate function. Useful for inverting logic. Defaults to `false`.
+ *   Only `valid` is inverted; `message` and `code` of a `ValidationResult` are kept as returned.
+ * @param options.defaultValue - A default value that always returns `true` immediately without calling the validate function.
+ *   Useful for skipping validations on initial or placeholder values.
+ * @param options.maxCacheSize - The maximum number of cached results. Defaults to 100.
+ *   Prevents memory leaks in long-running applications by limiting cache size.
+ * @param options.cacheTtl - How long a cached result stays fresh in milliseconds. Defaults to `Infinity`.
+ *   Use it for answers that can change over time, such as availability checks.
+ * @param options.getCacheKey - Derives the cache key from a value. Defaults to the value itself.
+ *   Use it to normalize values (e.g. lowercase emails) or to cache object values structurally.
+ * @param options.cache - A cache to use instead of the validator's private one, e.g. to share results
+ *   between validators. `maxCacheSize` and `cacheTtl` are ignored when it is set.
+ * @param options.maxAttempts - How many times the validate function is called for one value when it throws.
+ *   Defaults to 1 (no retries).
+ * @param options.retryDelay - The delay in milliseconds before the first retry. Defaults to 1000ms.
+ * @param options.backoffFactor - The multiplier applied to the retry delay after each failed attempt. Defaults to 2.
+ * @param options.maxRetryDelay - The upper bound for the retry delay in milliseconds. Defaults to 10000ms.
+ * @param options.getRetryDelay - Returns the delay before retrying after `error`, overriding the backoff,
+ *   e.g. the `Retry-After` of a rate-limited response. Return `undefined` to use the backoff.
+ * @param options.onError - Called with the last error and the value once all attempts have failed.
+ * @param options.onEvent - Called with every {@link ValidatorEvent}, e.g. to feed analytics.
+ *   Errors thrown by it are ignored so telemetry can never break validation.
+ * @returns A {@link DebouncedValidator} with:
+ *   - `validate`: Debounces a value and resolves with `true` if it is valid.
+ *   - `check`: Like `validate`, but resolves with the full `ValidationResult`.
+ *   - `flush`: Runs the pending validation now instead of waiting for the delay, e.g. on blur or submit.
+ *     Resolves with the result of the pending or in-flight validation, or `undefined` if there is none.
+ *   - `cancel`: Drops the pending validation, aborts any in-flight one and resolves pending promises with `false`.
+ *   - `reset`: Cancels like `cancel`, clears the cache (shared caches included) and returns the state to `idle`.
+ *   - `invalidate`: Removes the cached result of one value, so that its next call validates it again.
+ *   - `dispose`: Cancels pending work without updating the state and removes all subscribers.
+ *   - `getState` / `subscribe`: Read the current state and get notified when it changes.
+ *   - `getStats`: Returns a snapshot of the {@link ValidatorStats} counters, e.g. to tune `delay` and `maxCacheSize`.
+ *   - `configure`: Replaces the validate function and options for subsequent calls.
+ *     `maxCacheSize` and `cacheTtl` only apply on creation.
+ *
+ * @example
+ * ```typescript
+ * const emailValidator = createDebouncedValidator(
+ *   async (email: string, signal: AbortSignal) => {
+ *     const response = await fetch(`/api?email=${email}`, { signal });
+ *     return response.ok;
+ *   },
+ *   { delay: 300 }
+ * );
+ *
+ * emailValidator.subscribe(() => console.log(emailValidator.getState().status));
+ * const isAvailable = await emailValidator.validate('user@example.com');
+ * ```
+ *
+ * @remarks
+ * - Results of aborted validations are discarded: they are not cached and never resolve pending promises.
+ * - A validation started by `maxWait` that a newer value superseded still caches its result and resolves
+ *   its own calls, but leaves the state to the newer value.
+ * - If the validate function throws an error, it is retried with exponential backoff up to `maxAttempts`.
+ *   When every attempt fails, `onError` is called, the status becomes `error` and it returns `false`
+ *   regardless of `negate`. Errors are never cached, so the next call for the same value tries again.
+ * - For performance, cached values are returned immediately. Like any newer value, they supersede
+ *   an older one that is still debouncing or in flight, whose calls resolve with the cached result.
+ * - Cache size is limited to prevent memory leaks; least recently used entries are removed when the limit is exceeded.
+ * - Cache keys are compared by identity unless `getCacheKey` is provided, so object values for `T`
+ *   only hit the cache for the same reference. `defaultValue` is always compared with `Object.is`.
+ */
+export function createDebouncedValidator<T = string>(
+  initialValidate: ValidateFn<T>,
+  initialOptions: DebouncedValidatorOptions<T> = {}
+): DebouncedValidator<T> {
+  let validateFn = initialValidate;
+  let options = initialOptions;
+  const privateCache = createValidatorCache<unknown, ValidationResult>({
+    maxSize: initialOptions.maxCacheSize,
+    ttl: initialOptions.cacheTtl,
+  });
+
+  const adaptiveDelay = createAdaptiveDelay(
+    typeof initialOptions.adaptiveDelay === 'object' ? initialOptions.adaptiveDelay : {}
+  );
+
+  type Resolver = (result: ValidationResult) => void;
+  // The calls a validation resolves: those waiting when it started, and those that joined it
+  type Run = {
+    value: T;
+    key: unknown;
+    controller: AbortController;
+    resolvers: Resolver[];
+    fromMaxWait: boolean;
+  };
+
+  let state: ValidationState<T> = initialState;
+  const listeners = new Set<() => void>();
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let burstStart: number | null = null;
+  let hasTrailing = false;
+  let pendingResolvers: Resolver[] = [];
+  let pendingValue: T | undefined;
+  // The in-flight validation of the latest value, and superseded ones started by `maxWait`
+  let run: Run | null = null;
+  const detachedRuns = new Set<Run>();
+  let runs = 0;
+  const stats = { calls: 0, cacheHits: 0, cacheMisses: 0, validations: 0, errors: 0 };
+
+  const getCache = () => options.cache ?? privateCache;
+  const getKey = (value: T) => (options.getCacheKey ? options.getCacheKey(value) : value);
+
+  // Distributes the union over every event type so callers don't have to pass the shared fields
+  type EventDetail =
+    ValidatorEvent<T> extends infer E
+      ? E extends ValidatorEvent<T>
+        ? Omit<E, 'value' | 'timestamp'>
+        : never
+      : never;
+
+  const emit = (value: T, detail: EventDetail) => {
+    try {
+      options.onEvent?.({ ...detail, value, timestamp: Date.now() } as ValidatorEvent<T>);
+    } catch {
+      // Telemetry must never break validation
+    }
+  };
+
+  const setState = (next: ValidationState<T>) => {
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const transition = (
+    status: ValidationStatus,
+    value: T | undefined,
+    detail: { result?: ValidationResult; error?: unknown } = {}
+  ) => {
+    const now = Date.now();
+    setState({
+      status,
+      value,
+      updatedAt: now,
+      startedAt: status === 'validating' ? now : state.startedAt,
+      settledAt:
+        status === 'valid' || status === 'invalid' || status === 'error' ? now : state.settledAt,
+      result: detail.result,
+      error: detail.error,
+    });
+  };
+
+  const applyNegate = (result: ValidationResult) =>
+    options.negate ? { ...result, valid: !result.valid } : result;
+
+  const settle = (value: T, result: ValidationResult) => {
+    const finalResult = applyNegate(result);
+    transition(finalResult.valid ? 'valid' : 'invalid', value, { result: finalResult });
+    return finalResult;
+  };
+
+  const flushResolvers = (result: ValidationResult) => {
+    const resolvers = pendingResolvers;
+    pendingResolvers = [];
+    resolvers.forEach((resolve) => resolve(result));
+  };
+
+  // Calls of an aborted validation wait for the next one instead
+  const abortRun = (aborted: Run) => {
+    aborted.controller.abort();
+    pendingResolvers = [...aborted.resolvers, ...pendingResolvers];
+  };
+
+  // A newer value replaces the in-flight validation, except one started by `maxWait`, which
+  // keeps going so that a result still arrives during steady typing
+  const supersedeRun = () => {
+    if (run?.fromMaxWait) {
+      detachedRuns.add(run);
+    } else if (run) {
+      abortRun(run);
+    }
+    run = null;
+  };
+
+  const abortAllRuns = () => {
+    if (run) {
+      abortRun(run);
+      run = null;
+    }
+    detachedRuns.forEach(abortRun);
+    detachedRuns.clear();
+  };
+
+  // Drops the older value that is debouncing or in flight, before scheduling or settling a newer one
+  const supersedePending = () => {
+    if (hasTrailing) {
+      emit(pendingValue as T, { type: 'superseded', phase: 'debouncing' });
+    } else if (run) {
+      emit(run.value, { type: 'superseded', phase: 'validating' });
+    }
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    supersedeRun();
+  };
+
+  // A value that settles at once also ends the burst, so nothing older is validated after it
+  const settleNow = (result: ValidationResult) => {
+    supersedePending();
+    burstStart = null;
+    hasTrailing = false;
+    flushResolvers(result);
+    return Promise.resolve(result);
+  };
+
+  const performValidation = async (currentValue: T, fromMaxWait = false) => {
+    const {
+      maxAttempts = 1,
+      retryDelay = 1000,
+      backoffFactor = 2,
+      maxRetryDelay = 10000,
+    } = options;
+    const controller = new AbortController();
+    const current: Run = {
+      value: currentValue,
+      key: getKey(currentValue),
+      controller,
+      resolvers: pendingResolvers,
+      fromMaxWait,
+    };
+    pendingResolvers = [];
+    run = current;
+    runs += 1;
+    transition('validating', currentValue);
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const attemptStart = Date.now();
+        stats.validations += 1;
+        emit(currentValue, { type: 'validate-start', attempt });
+
+        try {
+          const rawResult = await validateFn(currentValue, controller.signal);
+
+          // A newer value or cancel superseded this validation
+          if (controller.signal.aborted) {
+            return;
+          }
+
+          const result = toValidationResult(rawResult);
+          emit(currentValue, {
+            type: 'validate-end',
+            attempt,
+            duration: Date.now() - attemptStart,
+            result,
+          });
+          adaptiveDelay.recordValidation(Date.now() - attemptStart, false);
+          getCache().set(current.key, result);
+          const finalResult = run === current ? settle(currentValue, result) : applyNegate(result);
+          current.resolvers.forEach((resolve) => resolve(finalResult));
+          return;
+        } catch (error) {
+          if (controller.signal.aborted) {
+            return;
+          }
+
+          stats.errors += 1;
+          emit(currentValue, {
+            type: 'error',
+            attempt,
+            duration: Date.now() - attemptStart,
+            error,
+            willRetry: attempt < maxAttempts,
+          });
+
+          // Failures are not results: never cache them and never negate them into success
+          if (attempt >= maxAttempts) {
+            adaptiveDelay.recordValidation(Date.now() - attemptStart, true);
+            if (run === current) {
+              transition('error', currentValue, { error });
+            }
+            options.onError?.(error, currentValue);
+            current.resolvers.forEach((resolve) => resolve({ valid: false }));
+            return;
+          }
+
+          const backoff =
+            options.getRetryDelay?.(error, attempt) ??
+            Math.min(retryDelay * backoffFactor ** (attempt - 1), maxRetryDelay);
+          await wait(backoff, controller.signal);
+
+          if (controller.signal.aborted) {
+            return;
+          }
+        }
+      }
+    } finally {
+      if (run === current) {
+        run = null;
+      }
+      detachedRuns.delete(current);
+    }
+  };
+
+  // The burst ends once no call arrives within the delay, or when `maxWait` runs out; a
+  // trailing call is validated then
+  const endBurst = (fromMaxWait: boolean) => {
+    timer = null;
+    burstStart = null;
+    if (hasTrailing) {
+      hasTrailing = false;
+      performValidation(pendingValue as T, fromMaxWait);
+    }
+  };
+
+  const check = (value: T): Promise<ValidationResult> => {
+    const { leading = false, maxWait, defaultValue } = options;
+    stats.calls += 1;
+    adaptiveDelay.recordCall(Date.now());
+    const delay = options.adaptiveDelay
+      ? adaptiveDelay.getDelay(options.delay ?? 500)
+      : (options.delay ?? 500);
+
+    if (Object.is(value, defaultValue)) {
+      transition('idle', value);
+      return settleNow({ valid: true });
+    }
+
+    const key = getKey(value);
+    const cachedResult = getCache().get(key);
+    if (cachedResult !== undefined) {
+      stats.cacheHits += 1;
+      emit(value, { type: 'cache-hit', key });
+      return settleNow(settle(value, cachedResult));
+    }
+    stats.cacheMisses += 1;
+    emit(value, { type: 'cache-miss', key });
+
+    return new Promise<ValidationResult>((resolve) => {
+      // Join an in-flight validation of the same value instead of restarting it
+      if (run && !hasTrailing && Object.is(run.key, key)) {
+        run.resolvers.push(resolve);
+        return;
+      }
+
+      pendingResolvers.push(resolve);
+      supersedePending();
+      pendingValue = value;
+
+      const now = Date.now();
+      const isBurstStart = burstStart === null;
+      if (isBurstStart) {
+        burstStart = now;
+      }
+
+      if (leading && isBurstStart) {
+        hasTrailing = false;
+        timer = setTimeout(() => endBurst(false), delay);
+        performValidation(value);
+        return;
+      }
+
+      hasTrailing = true;
+      transition('debouncing', value);
+
+      const remaining = Math.max(
+        maxWait === undefined ? delay : Math.min(delay, burstStart! + maxWait - now),
+        0
+      );
+      emit(value, { type: 'scheduled', delay: remaining });
+      timer = setTimeout(() => endBurst(remaining < delay), remaining);
+    });
+  };
+
+  const flush = (): Promise<ValidationResult | undefined> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+      burstStart = null;
+
+      if (hasTrailing) {
+        hasTrailing = false;
+        const promise = new Promise<ValidationResult>((resolve) => {
+          pendingResolvers.push(resolve);
+        });
+        performValidation(pendingValue as T);
+        return promise;
+      }
+    }
+
+    if (run) {
+      const inFlight = run;
+      return new Promise<ValidationResult>((resolve) => {
+        inFlight.resolvers.push(resolve);
+      });
+    }
+
+    return Promise.resolve(undefined);
+  };
+
+  const clearPending = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    burstStart = null;
+    hasTrailing = false;
+    abortAllRuns();
+    flushResolvers({ valid: false });
+  };
+
+  const cancel = () => {
+    clearPending();
+    if (state.status === 'debouncing' || state.status === 'validating') {
+      setState({ ...state, status: 'idle', updatedAt: Date.now() });
+    }
+  };
+
+  return {
+    validate: (value) => check(value).then((result) => result.valid),
+    check,
+    flush,
+    cancel,
+    reset: () => {
+      clearPending();
+      getCache().clear();
+      setState(initialState);
+    },
+    invalidate: (value) => {
+      getCache().delete(getKey(value));
+    },
+    dispose: () => {
+      if (hasTrailing || run || detachedRuns.size > 0) {
+        // Calls wait either for the next run or for one already in flight
+        const inFlight = [...detachedRuns, ...(run ? [run] : [])];
+        emit(state.value as T, {
+          type: 'unmount-flush',
+          phase: hasTrailing ? 'debouncing' : 'validating',
+          pending:
+            inFlight.reduce((count, { resolvers }) => count + resolvers.length, 0) +
+            pendingResolvers.length,
+        });
+      }
+      clearPending();
+      listeners.clear();
+    },
+    getState: () => state,
+    getStats: () => ({ ...stats, avoided: stats.calls - runs }),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    configure: (nextValidate, nextOptions) => {
+      validateFn = nextValidate;
+      options = nextOptions;
+    },
+  };
+}
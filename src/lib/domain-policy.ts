@@ -0,0 +1,92 @@
+/**
+ * Why a domain may not be used to sign up.
+ *
+ * - `disposable_domain`: The domain hands out throwaway addresses.
+ * - `blocked_domain`: The domain was blocked for another reason, e.g. abuse.
+ * - `domain_not_allowed`: The deployment only accepts allowlisted domains.
+ */
+export type DomainPolicyReason = 'disposable_domain' | 'blocked_domain' | 'domain_not_allowed';
+
+export type DomainPolicy = {
+  /** Returns why the domain of `email` is rejected, or `null` when it is accepted. */
+  check: (email: string) => DomainPolicyReason | null;
+};
+
+type Options = {
+  blocklist?: Record<string, 'disposable_domain' | 'blocked_domain'>;
+  allowlist?: Iterable<string>;
+};
+
+/**
+ * A small sample of well-known disposable email providers. Real deployments should load a
+ * maintained list and pass it to {@link createDomainPolicy}.
+ */
+export const disposableDomains = [
+  '10minutemail.com',
+  'dispostable.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'maildrop.cc',
+  'mailinator.com',
+  'sharklasers.com',
+  'tempmail.com',
+  'trashmail.com',
+  'yopmail.com',
+];
+
+/**
+ * Returns `domain` followed by each of its parent domains, e.g. `a.b.com`, `b.com`, `com`.
+ */
+const domainAndParents = (domain: string) =>
+  domain.split('.').map((_, index, labels) => labels.slice(index).join('.'));
+
+/**
+ * Creates a policy that decides which email domains may sign up. Subdomains follow their parent,
+ * so blocking `mailinator.com` also blocks `eu.mailinator.com`.
+ *
+ * @param options - Configuration options for the policy.
+ * @param options.blocklist - Blocked domains, each with its own reason. Defaults to none.
+ * @param options.allowlist - When set, only these domains (and their subdomains) are accepted,
+ *   e.g. for invite-only deployments. The blocklist still applies to them.
+ * @returns A {@link DomainPolicy}.
+ *
+ * @example
+ * ```typescript
+ * const policy = createDomainPolicy({
+ *   blocklist: { 'mailinator.com': 'disposable_domain', 'spam.example': 'blocked_domain' },
+ * });
+ * policy.check('someone@eu.mailinator.com'); // 'disposable_domain'
+ * policy.check('someone@example.com'); // null
+ * ```
+ */
+export function createDomainPolicy(options: Options = {}): DomainPolicy {
+  const blocklist = new Map(
+    Object.entries(options.blocklist ?? {}).map(([domain, reason]) => [
+      domain.toLowerCase(),
+      reason,
+    ])
+  );
+  const allowlist = options.allowlist
+    ? new Set(Array.from(options.allowlist, (domain) => domain.toLowerCase()))
+    : null;
+
+  return {
+    check: (email) => {
+      const domain = email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+      const domains = domainAndParents(domain);
+
+      for (const candidate of domains) {
+        const reason = blocklist.get(candidate);
+        if (reason) {
+          return reason;
+        }
+      }
+
+      if (allowlist && !domains.some((candidate) => allowlist.has(candidate))) {
+        return 'domain_not_allowed';
+      }
+
+      return null;
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import { createDomainPolicy, disposableDomains, type DomainPolicy } from './domain-policy';
+import { normalizeEmail, type NormalizeEmailOptions } from './email-normalization';
+import { createFileValueStore } from './file-value-store';
+import { createMemoryValueStore, type ValueStore } from './value-store';
+
+import type { AvailabilityResponse } from './availability-contract';
+
+export type EmailAvailability = {
+  /** Resolves with whether the email is available; `value` in the response is normalized. */
+  check: (email: string) => Promise<AvailabilityResponse>;
+  /** Stores the normalized email and resolves with `false` if it was already registered. */
+  register: (email: string) => Promise<boolean>;
+  /** Removes the normalized email, e.g. to roll back a signup that failed later on. */
+  unregister: (email: string) => Promise<boolean>;
+  normalize: (email: string) => string;
+};
+
+type Options = {
+  store: ValueStore;
+  normalization?: NormalizeEmailOptions;
+  domainPolicy?: DomainPolicy;
+};
+
+/**
+ * Creates the email availability service used by the API routes. Emails are normalized with
+ * {@link normalizeEmail} before every lookup, so `Test+news@Example.com` is unavailable once
+ * `test@example.com` is registered. Emails whose domain is rejected by the domain policy are
+ * unavailable with the policy's reason, without looking them up in the store.
+ *
+ * @param options - Configuration options for the service.
+ * @param options.store - Where registered emails are kept, e.g. {@link createMemoryValueStore}.
+ * @param options.normalization - Options passed to {@link normalizeEmail}.
+ * @param options.domainPolicy - Rejects emails by domain, e.g. {@link createDomainPolicy}. Optional.
+ * @returns An {@link EmailAvailability}.
+ *
+ * @example
+ * ```typescript
+ * const availability = createEmailAvailability({ store: createMemoryValueStore() });
+ * await availability.register('Test@Example.com');
+ * await availability.check('test+news@example.com');
+ * // { value: 'test@example.com', available: false, reason: 'registered' }
+ * ```
+ */
+export function createEmailAvailability({
+  store,
+  normalization,
+  domainPolicy,
+}: Options): EmailAvailability {
+  const normalize = (email: string) => normalizeEmail(email, normalization);
+
+  return {
+    check: async (email) => {
+      const normalized = normalize(email);
+      const domainReason = domainPolicy?.check(normalized);
+      if (domainReason) {
+        return { value: normalized, available: false, reason: domainReason };
+      }
+      if (await store.has(normalized)) {
+        return { value: normalized, available: false, reason: 'registered' };
+      }
+      return { value: normalized, available: true };
+    },
+    register: (email) => store.add(normalize(email)),
+    unregister: (email) => store.delete(normalize(email)),
+    normalize,
+  };
+}
+
+const seedEmails = ['example@example.com', 'test@example.com'];
+
+let defaultAvailability: EmailAvailability | null = null;
+
+// An empty list counts as unset, so that allowlist mode needs at least one domain
+const parseDomains = (value: string | undefined) => {
+  const domains = value
+    ?.split(',')
+    .map((domain) => domain.trim())
+    .filter(Boolean);
+  return domains?.length ? domains : undefined;
+};
+
+/**
+ * Returns the service shared by the API routes. Registered emails are kept in the JSON file at
+ * `EMAIL_STORE_FILE` when it is set, and in memory (seeded with a few example emails) otherwise.
+ *
+ * Disposable domains are always rejected. `BLOCKED_EMAIL_DOMAINS` adds more blocked domains and
+ * `ALLOWED_EMAIL_DOMAINS` switches to allowlist mode once it lists a domain; both are
+ * comma-separated lists.
+ */
+export function getEmailAvailability(): EmailAvailability {
+  if (!defaultAvailability) {
+    const file = process.env.EMAIL_STORE_FILE;
+    defaultAvailability = createEmailAvailability({
+      store: file ? createFileValueStore(file) : createMemoryValueStore(seedEmails),
+      normalization: { gmailDots: true },
+      domainPolicy: createDomainPolicy({
+        blocklist: {
+          ...Object.fromEntries(disposableDomains.map((domain) => [domain, 'disposable_domain'])),
+          ...Object.fromEntries(
+            (parseDomains(process.env.BLOCKED_EMAIL_DOMAINS) ?? []).map((domain) => [
+              domain,
+              'blocked_domain',
+            ])
+          ),
+        },
+        allowlist: parseDomains(process.env.ALLOWED_EMAIL_DOMAINS),
+      }),
+    });
+  }
+  return defaultAvailability;
+}
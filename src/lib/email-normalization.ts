@@ -0,0 +1,55 @@
+export type NormalizeEmailOptions = {
+  removeSubaddress?: boolean;
+  gmailDots?: boolean;
+};
+
+const gmailDomains = new Set(['gmail.com', 'googlemail.com']);
+
+/**
+ * Normalizes an email so that addresses delivered to the same mailbox compare equal.
+ *
+ * - Surrounding whitespace is trimmed and the address is lowercased.
+ * - A `+tag` subaddress is removed from the local part (`user+news@example.com` → `user@example.com`).
+ * - With `gmailDots`, dots in Gmail local parts are removed and `googlemail.com` becomes `gmail.com`,
+ *   because Gmail ignores both.
+ *
+ * Values without an `@` are only trimmed and lowercased.
+ *
+ * @param email - The email to normalize.
+ * @param options - Configuration options for the normalization.
+ * @param options.removeSubaddress - Removes `+tag` subaddresses. Defaults to `true`.
+ * @param options.gmailDots - Applies the Gmail dot and domain rules. Defaults to `false`.
+ * @returns The normalized email.
+ *
+ * @example
+ * ```typescript
+ * normalizeEmail(' Test+Signup@Example.com '); // 'test@example.com'
+ * normalizeEmail('j.doe@googlemail.com', { gmailDots: true }); // 'jdoe@gmail.com'
+ * ```
+ */
+export function normalizeEmail(email: string, options: NormalizeEmailOptions = {}): string {
+  const { removeSubaddress = true, gmailDots = false } = options;
+  const folded = email.trim().toLowerCase();
+
+  const at = folded.lastIndexOf('@');
+  if (at === -1) {
+    return folded;
+  }
+
+  let local = folded.slice(0, at);
+  let domain = folded.slice(at + 1);
+
+  if (removeSubaddress) {
+    const plus = local.indexOf('+');
+    if (plus > 0) {
+      local = local.slice(0, plus);
+    }
+  }
+
+  if (gmailDots && gmailDomains.has(domain)) {
+    local = local.replaceAll('.', '');
+    domain = 'gmail.com';
+  }
+
+  return `${local}@${domain}`;
+}
@@ -0,0 +1,74 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+
+import type { ValueStore } from './value-store';
+
+/**
+ * Creates a {@link ValueStore} backed by a JSON file containing an array of strings.
+ *
+ * The file is read on every call, so changes made by other processes are picked up, and written
+ * to a temporary file that replaces the original, so a crash never leaves it half-written.
+ * Calls are queued, which makes `add` and `delete` atomic within one process. A missing file is treated as empty.
+ *
+ * @param path - The path of the JSON file.
+ * @returns A {@link ValueStore}.
+ *
+ * @example
+ * ```typescript
+ * const store = createFileValueStore('./data/registered-emails.json');
+ * await store.add('user@example.com'); // true
+ * await store.has('user@example.com'); // true
+ * ```
+ */
+export function createFileValueStore(path: string): ValueStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Run one operation at a time so a read-modify-write never interleaves with another
+  const enqueue = <R>(operation: () => Promise<R>): Promise<R> => {
+    const result = queue.then(operation);
+    queue = result.catch(() => {});
+    return result;
+  };
+
+  const read = async (): Promise<string[]> => {
+    try {
+      const data: unknown = JSON.parse(await readFile(path, 'utf8'));
+      if (!Array.isArray(data) || !data.every((value) => typeof value === 'string')) {
+        throw new Error(`Expected a JSON array of strings in ${path}`);
+      }
+      return data;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  };
+
+  const write = async (values: string[]) => {
+    const temporaryPath = `${path}.${process.pid}.tmp`;
+    await writeFile(temporaryPath, `${JSON.stringify(values, null, 2)}\n`);
+    await rename(temporaryPath, path);
+  };
+
+  return {
+    has: (value) => enqueue(async () => (await read()).includes(value)),
+    add: (value) =>
+      enqueue(async () => {
+        const values = await read();
+        if (values.includes(value)) {
+          return false;
+        }
+        await write([...values, value]);
+        return true;
+      }),
+    delete: (value) =>
+      enqueue(async () => {
+        const values = await read();
+        if (!values.includes(value)) {
+          return false;
+        }
+        await write(values.filter((stored) => stored !== value));
+        return true;
+      }),
+  };
+}
@@ -0,0 +1,88 @@
+import { messages, type MessageKey } from './messages';
+
+import type * as v from 'valibot';
+
+export type { MessageKey } from './messages';
+
+export type Locale = keyof typeof messages;
+
+export const locales = Object.keys(messages) as Locale[];
+
+export const defaultLocale: Locale = 'en';
+
+/**
+ * The cookie that remembers the locale picked by the user.
+ */
+export const localeCookie = 'locale';
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.hasOwn(messages, value);
+
+/**
+ * Resolves a language tag such as `ja-JP` to a supported locale by its primary subtag, or
+ * `defaultLocale` when it is missing or not supported.
+ */
+export function resolveLocale(tag: string | null | undefined): Locale {
+  const language = tag?.trim().split('-')[0].toLowerCase();
+  return isLocale(language) ? language : defaultLocale;
+}
+
+/**
+ * Picks the locale of a request: the one remembered in the locale cookie, else the supported
+ * language with the highest quality in `Accept-Language`, else `defaultLocale`.
+ *
+ * @example
+ * ```typescript
+ * negotiateLocale(undefined, 'fr;q=0.9, ja;q=0.8, en;q=0.5'); // 'ja'
+ * negotiateLocale('en', 'ja'); // 'en'
+ * ```
+ */
+export function negotiateLocale(
+  cookie: string | null | undefined,
+  acceptLanguage: string | null | undefined
+): Locale {
+  if (isLocale(cookie)) {
+    return cookie;
+  }
+
+  const ranges = (acceptLanguage ?? '')
+    .split(',')
+    .map((range) => {
+      const [tag, ...params] = range.split(';');
+      const quality = params.find((param) => param.trim().startsWith('q='));
+      return { tag: tag.trim(), quality: quality ? Number(quality.trim().slice(2)) : 1 };
+    })
+    .filter(({ tag, quality }) => tag && quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  const match = ranges.find(({ tag }) => isLocale(tag.split('-')[0].toLowerCase()));
+  return match ? resolveLocale(match.tag) : defaultLocale;
+}
+
+/**
+ * Returns the message for `key` in `locale`, with every `{name}` placeholder replaced by the
+ * matching entry of `params`.
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, string> = {}
+): string {
+  return messages[locale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.hasOwn(params, name) ? params[name] : placeholder
+  );
+}
+
+/**
+ * A Valibot error message that is translated into the `lang` of the parse config, e.g.
+ * `v.safeParse(schema, input, { lang: 'ja' })`. Without a `lang`, `defaultLocale` is used.
+ *
+ * @example
+ * ```typescript
+ * const schema = v.pipe(v.string(), v.minLength(1, message('required')));
+ * ```
+ */
+export const message =
+  (key: MessageKey) =>
+  (issue: v.BaseIssue<unknown>): string =>
+    translate(resolveLocale(issue.lang), key);
@@ -0,0 +1,153 @@
+/**
+ * The English catalog, which defines every message key. `{name}` placeholders are filled in by
+ * `translate`.
+ */
+const en = {
+  // Field rules
+  required: 'This field is required',
+  invalidEmail: 'Please enter a valid email format',
+  usernameTooShort: 'Username must be at least 3 characters',
+  usernameTooLong: 'Username must be at most 20 characters',
+  usernameStart: 'Username must start with a letter',
+  usernameCharacters: 'Use only letters, numbers and underscores',
+  passwordTooShort: 'Password must be at least 8 characters',
+  passwordTooLong: 'Password must be at most 128 characters',
+  passwordLowercase: 'Include a lowercase letter',
+  passwordUppercase: 'Include an uppercase letter',
+  passwordNumber: 'Include a number',
+  passwordMismatch: 'Passwords do not match',
+  emailNotAvailable: 'This email is not available',
+  usernameNotAvailable: 'This username is not available',
+
+  // Why a value is unavailable, by field and reason
+  'email.registered': 'This email is already registered. Sign in instead.',
+  'email.reserved': 'This email cannot be used to sign up.',
+  'email.disposable_domain':
+    'Disposable email addresses are not allowed. Please use a permanent address.',
+  'email.blocked_domain': 'Emails from this domain cannot be used to sign up.',
+  'email.domain_not_allowed': 'Sign up is limited to invited domains. Please use your work email.',
+  'username.registered': 'This username is already taken.',
+  'username.reserved': 'This username is reserved. Please choose another one.',
+  'username.disposable_domain': 'This username is not available.',
+  'username.blocked_domain': 'This username is not available.',
+  'username.domain_not_allowed': 'This username is not available.',
+
+  // Checks and submission that could not be completed
+  tooManyChecks: 'Too many checks. Please wait a moment and try again.',
+  emailCheckFailed: "We couldn't verify this email right now. Please try again.",
+  usernameCheckFailed: "We couldn't verify this username right now. Please try again.",
+  tooManyAttempts: 'Too many attempts. Please wait a moment and try again.',
+  somethingWentWrong: 'Something went wrong. Please try again.',
+
+  // Signup form
+  title: 'Sign Up',
+  nameLabel: 'Name',
+  namePlaceholder: 'Your Name',
+  usernameLabel: 'Username',
+  emailLabel: 'Email',
+  passwordLabel: 'Password',
+  confirmPasswordLabel: 'Confirm password',
+  passwordStrength: 'Password strength',
+  'strength.0': 'Very weak',
+  'strength.1': 'Weak',
+  'strength.2': 'Fair',
+  'strength.3': 'Strong',
+  'strength.4': 'Very strong',
+  checkingAvailability: 'Checking availability…',
+  available: 'Available',
+  suggestions: 'Available:',
+  registeredPrompt: 'Is this you? ',
+  signIn: 'Sign in',
+  or: ' or ',
+  resetPassword: 'reset your password',
+  registeredSuffix: '.',
+  newsletterLabel: 'Send me product updates by email',
+  'step.account': 'Account',
+  'step.profile': 'Profile',
+  'step.preferences': 'Preferences',
+  stepOf: 'Step {current} of {total}: {title}',
+  back: 'Back',
+  next: 'Next',
+  submit: 'Sign Up',
+  'submitPhase.checking': 'Checking your details…',
+  'submitPhase.sending': 'Creating your account…',
+  accountCreated: 'Your account has been created for {email}.',
+  language: 'Language',
+};
+
+export type MessageKey = keyof typeof en;
+
+const ja: Record<MessageKey, string> = {
+  required: 'この項目は必須です',
+  invalidEmail: '有効なメールアドレスの形式で入力してください',
+  usernameTooShort: 'ユーザー名は3文字以上で入力してください',
+  usernameTooLong: 'ユーザー名は20文字以内で入力してください',
+  usernameStart: 'ユーザー名は英字で始めてください',
+  usernameCharacters: '英字、数字、アンダースコアのみ使用できます',
+  passwordTooShort: 'パスワードは8文字以上で入力してください',
+  passwordTooLong: 'パスワードは128文字以内で入力してください',
+  passwordLowercase: '英小文字を含めてください',
+  passwordUppercase: '英大文字を含めてください',
+  passwordNumber: '数字を含めてください',
+  passwordMismatch: 'パスワードが一致しません',
+  emailNotAvailable: 'このメールアドレスは使用できません',
+  usernameNotAvailable: 'このユーザー名は使用できません',
+
+  'email.registered': 'このメールアドレスは既に登録されています。サインインしてください。',
+  'email.reserved': 'このメールアドレスは登録に使用できません。',
+  'email.disposable_domain':
+    '使い捨てメールアドレスは使用できません。恒久的なアドレスを使用してください。',
+  'email.blocked_domain': 'このドメインのメールアドレスは登録に使用できません。',
+  'email.domain_not_allowed':
+    '登録は招待されたドメインに限られています。勤務先のメールアドレスを使用してください。',
+  'username.registered': 'このユーザー名は既に使用されています。',
+  'username.reserved': 'このユーザー名は予約されています。別のユーザー名を選んでください。',
+  'username.disposable_domain': 'このユーザー名は使用できません。',
+  'username.blocked_domain': 'このユーザー名は使用できません。',
+  'username.domain_not_allowed': 'このユーザー名は使用できません。',
+
+  tooManyChecks: 'チェックが多すぎます。しばらく待ってから再度お試しください。',
+  emailCheckFailed: '現在このメールアドレスを確認できません。再度お試しください。',
+  usernameCheckFailed: '現在このユーザー名を確認できません。再度お試しください。',
+  tooManyAttempts: '試行回数が多すぎます。しばらく待ってから再度お試しください。',
+  somethingWentWrong: '問題が発生しました。再度お試しください。',
+
+  title: '新規登録',
+  nameLabel: '名前',
+  namePlaceholder: 'お名前',
+  usernameLabel: 'ユーザー名',
+  emailLabel: 'メールアドレス',
+  passwordLabel: 'パスワード',
+  confirmPasswordLabel: 'パスワード（確認）',
+  passwordStrength: 'パスワードの強度',
+  'strength.0': '非常に弱い',
+  'strength.1': '弱い',
+  'strength.2': '普通',
+  'strength.3': '強い',
+  'strength.4': '非常に強い',
+  checkingAvailability: '利用可能か確認しています…',
+  available: '利用可能です',
+  suggestions: '利用可能:',
+  registeredPrompt: 'ご本人ですか？',
+  signIn: 'サインイン',
+  or: 'または',
+  resetPassword: 'パスワードを再設定',
+  registeredSuffix: 'してください。',
+  newsletterLabel: '製品の最新情報をメールで受け取る',
+  'step.account': 'アカウント',
+  'step.profile': 'プロフィール',
+  'step.preferences': '設定',
+  stepOf: 'ステップ {current}/{total}: {title}',
+  back: '戻る',
+  next: '次へ',
+  submit: '登録',
+  'submitPhase.checking': '入力内容を確認しています…',
+  'submitPhase.sending': 'アカウントを作成しています…',
+  accountCreated: '{email} でアカウントを作成しました。',
+  language: '言語',
+};
+
+/**
+ * Every message of the app, by locale.
+ */
+export const messages = { en, ja } satisfies Record<string, Record<MessageKey, string>>;
@@ -0,0 +1,88 @@
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export type PasswordStrength = {
+  /** From 0 (very weak) to 4 (very strong). */
+  score: PasswordScore;
+  /** The character classes the password uses, out of lowercase, uppercase, numbers and symbols. */
+  classes: number;
+};
+
+// A sample of the most common passwords, compared without trailing numbers and symbols
+const commonPasswords = new Set([
+  'password',
+  'passw0rd',
+  'qwerty',
+  'qwertyuiop',
+  'letmein',
+  'welcome',
+  'admin',
+  'iloveyou',
+  'monkey',
+  'dragon',
+  'sunshine',
+  'football',
+  'baseball',
+  'princess',
+  'master',
+  'abc',
+  'abcdef',
+]);
+
+const sequences = [
+  'abcdefghijklmnopqrstuvwxyz',
+  '0123456789',
+  'qwertyuiop',
+  'asdfghjkl',
+  'zxcvbnm',
+];
+
+const hasSequence = (password: string, length = 4) => {
+  const lower = password.toLowerCase();
+  for (let i = 0; i + length <= lower.length; i++) {
+    const chunk = lower.slice(i, i + length);
+    const reversed = [...chunk].reverse().join('');
+    if (sequences.some((sequence) => sequence.includes(chunk) || sequence.includes(reversed))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Estimates how hard a password is to guess, locally and without a dictionary download.
+ *
+ * Length and the variety of character classes raise the score, while common passwords, runs of
+ * the same character, keyboard or alphabet sequences and few distinct characters lower it. It is
+ * a hint for the user, not a rule: what a password must satisfy is defined by `passwordSchema`.
+ *
+ * @param password - The password to estimate.
+ * @returns A {@link PasswordStrength}.
+ *
+ * @example
+ * ```typescript
+ * estimatePasswordStrength('Password1'); // { score: 0, classes: 3 }
+ * estimatePasswordStrength('correct-Horse-7-battery'); // { score: 4, classes: 4 }
+ * ```
+ */
+export function estimatePasswordStrength(password: string): PasswordStrength {
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter((pattern) =>
+    pattern.test(password)
+  ).length;
+
+  const base = password.toLowerCase().replace(/[^a-z]+$/, '');
+  if (password.length === 0 || commonPasswords.has(base)) {
+    return { score: 0, classes };
+  }
+
+  let points = 0;
+  points += [8, 12, 16].filter((length) => password.length >= length).length;
+  points += classes >= 3 ? 1 : 0;
+  points += classes === 4 ? 1 : 0;
+  points -= /(.)\1{2,}/.test(password) ? 1 : 0;
+  points -= hasSequence(password) ? 1 : 0;
+
+  // A long password made of a handful of characters is still easy to guess
+  const cap = new Set(password).size < 5 ? 1 : 4;
+
+  return { score: Math.min(Math.max(points, 0), cap) as PasswordScore, classes };
+}
@@ -0,0 +1,143 @@
+export type TokenBucket = {
+  tokens: number;
+  /** When `tokens` was last computed, in epoch milliseconds. */
+  updatedAt: number;
+};
+
+/**
+ * Where the token buckets of a {@link createRateLimiter} are kept. Implement it on top of a shared
+ * store (e.g. Redis) when the app runs on more than one server instance.
+ */
+export type RateLimitStore = {
+  get: (key: string) => Promise<TokenBucket | undefined>;
+  set: (key: string, bucket: TokenBucket) => Promise<void>;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  /** The whole tokens left after this request. */
+  remaining: number;
+  /** How long to wait in milliseconds before the request would be allowed. 0 when allowed. */
+  retryAfter: number;
+};
+
+export type RateLimiter = {
+  consume: (key: string, cost?: number) => Promise<RateLimitResult>;
+};
+
+type Options = {
+  capacity?: number;
+  refillPerSecond?: number;
+  store?: RateLimitStore;
+};
+
+/**
+ * Creates a {@link RateLimitStore} that keeps buckets in memory. The oldest buckets are dropped
+ * once `maxKeys` clients are tracked, which at worst gives a dropped client a full bucket again.
+ *
+ * @param maxKeys - The maximum number of buckets. Defaults to 10000.
+ * @returns A {@link RateLimitStore}.
+ */
+export function createMemoryRateLimitStore(maxKeys = 10_000): RateLimitStore {
+  const buckets = new Map<string, TokenBucket>();
+
+  return {
+    get: async (key) => buckets.get(key),
+    set: async (key, bucket) => {
+      // Re-insert so the least recently used bucket is always the first one
+      buckets.delete(key);
+      while (buckets.size >= maxKeys) {
+        buckets.delete(buckets.keys().next().value as string);
+      }
+      buckets.set(key, bucket);
+    },
+  };
+}
+
+/**
+ * Creates a token-bucket rate limiter. Every key (usually a client IP) has a bucket of `capacity`
+ * tokens that refills continuously at `refillPerSecond`. A request is allowed when its cost can be
+ * taken from the bucket, so short bursts are fine while sustained traffic is limited to the refill rate.
+ *
+ * @param options - Configuration options for the limiter.
+ * @param options.capacity - The size of each bucket, i.e. the largest allowed burst. Defaults to 30.
+ * @param options.refillPerSecond - How many tokens are added back per second. Defaults to 2.
+ * @param options.store - Where buckets are kept. Defaults to {@link createMemoryRateLimitStore}.
+ * @returns A {@link RateLimiter} whose `consume` takes `cost` tokens (defaults to 1) for a key.
+ *
+ * @example
+ * ```typescript
+ * const limiter = createRateLimiter({ capacity: 10, refillPerSecond: 1 });
+ * const { allowed, retryAfter } = await limiter.consume(clientIp);
+ * if (!allowed) {
+ *   // Respond with 429 and Retry-After: Math.ceil(retryAfter / 1000)
+ * }
+ * ```
+ *
+ * @remarks
+ * - A `cost` above `capacity` can never be allowed; its `retryAfter` is `Infinity`.
+ * - `consume` reads and writes the bucket in two steps, so a shared store should make
+ *   concurrent updates of the same key safe (e.g. with a transaction).
+ */
+export function createRateLimiter(options: Options = {}): RateLimiter {
+  const { capacity = 30, refillPerSecond = 2, store = createMemoryRateLimitStore() } = options;
+
+  return {
+    consume: async (key, cost = 1) => {
+      const now = Date.now();
+      const bucket = (await store.get(key)) ?? { tokens: capacity, updatedAt: now };
+      const elapsed = Math.max(now - bucket.updatedAt, 0) / 1000;
+      const tokens = Math.min(capacity, bucket.tokens + elapsed * refillPerSecond);
+
+      if (tokens >= cost) {
+        await store.set(key, { tokens: tokens - cost, updatedAt: now });
+        return { allowed: true, remaining: Math.floor(tokens - cost), retryAfter: 0 };
+      }
+
+      await store.set(key, { tokens, updatedAt: now });
+      return {
+        allowed: false,
+        remaining: Math.floor(tokens),
+        retryAfter:
+          cost > capacity ? Infinity : Math.ceil(((cost - tokens) / refillPerSecond) * 1000),
+      };
+    },
+  };
+}
+
+/**
+ * Finds the address of the client that sent a request through `trustedProxies` proxies.
+ *
+ * Each proxy appends the address it received the request from to `X-Forwarded-For`, and the client
+ * can put anything before that. So the client is the entry appended by the outermost trusted proxy,
+ * `trustedProxies` entries from the right, and the entries left of it are ignored. Without a trusted
+ * proxy the headers come straight from the client and are not used at all.
+ *
+ * @param headers - The headers of the request.
+ * @param trustedProxies - How many proxies in front of the app append to `X-Forwarded-For`.
+ * @returns The address of the client, or `undefined` when the headers cannot be trusted to name it.
+ *
+ * @example
+ * ```typescript
+ * // One proxy, and a client that sent `X-Forwarded-For: 10.0.0.1` itself
+ * getClientAddress(new Headers({ 'x-forwarded-for': '10.0.0.1, 203.0.113.7' }), 1); // '203.0.113.7'
+ * ```
+ */
+export function getClientAddress(headers: Headers, trustedProxies: number): string | undefined {
+  if (trustedProxies < 1) {
+    return undefined;
+  }
+
+  const entries =
+    headers
+      .get('x-forwarded-for')
+      ?.split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean) ?? [];
+  if (entries.length > 0) {
+    return entries[Math.max(entries.length - trustedProxies, 0)];
+  }
+
+  // Proxies that do not append to `X-Forwarded-For` usually replace `X-Real-IP` instead
+  return headers.get('x-real-ip')?.trim() || undefined;
+}
@@ -0,0 +1,36 @@
+import * as v from 'valibot';
+
+import { parseRetryAfter, RateLimitError } from './availability-client';
+import { signupResponseSchema, type SignupFieldErrors, type SignupInput } from './signup-schema';
+
+export type SignupResult = { ok: true; email: string } | { ok: false; errors: SignupFieldErrors };
+
+/**
+ * Submits the signup form to the `/api/signup` route.
+ *
+ * Resolves with the registered (normalized) email, or with the field errors reported by the
+ * server. Throws a {@link RateLimitError} for `429` responses and an `Error` for any other failure,
+ * including a body that does not match `signupResponseSchema`.
+ */
+export async function submitSignup(inputs: SignupInput): Promise<SignupResult> {
+  const response = await fetch(new URL('/api/signup', window.location.origin), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(inputs),
+  });
+
+  if (response.status === 429) {
+    throw new RateLimitError(parseRetryAfter(response.headers.get('Retry-After')));
+  }
+
+  const parsed = v.safeParse(signupResponseSchema, await response.json().catch(() => null));
+  const data = parsed.success ? parsed.output : null;
+  if (data && 'errors' in data && (response.status === 400 || response.status === 409)) {
+    return { ok: false, errors: data.errors };
+  }
+  if (!response.ok || !data || !('email' in data)) {
+    throw new Error(`Signup failed with status ${response.status}`);
+  }
+
+  return { ok: true, email: data.email };
+}
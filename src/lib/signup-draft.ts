@@ -0,0 +1,78 @@
+import * as v from 'valibot';
+
+/**
+ * What a draft may contain. Fields are listed explicitly, so anything else, in particular
+ * `password` and `confirmPassword`, is left out of the stored draft.
+ */
+const draftSchema = v.partial(
+  v.object({
+    name: v.string(),
+    username: v.string(),
+    email: v.string(),
+    newsletter: v.boolean(),
+  })
+);
+
+export type SignupDraft = v.InferOutput<typeof draftSchema>;
+
+export type SignupDraftStore = {
+  load: () => SignupDraft | null;
+  save: (values: Record<string, unknown>) => void;
+  clear: () => void;
+};
+
+/**
+ * Creates a store for the values of an in-progress signup, so they survive a reload.
+ *
+ * Only non-sensitive values are kept: `save` strips every field that is not part of the draft
+ * schema, including passwords. Storage failures (quota, privacy mode) and corrupt drafts are
+ * ignored.
+ *
+ * @param storage - Where to keep the draft, e.g. `localStorage`.
+ * @param key - The storage key. Defaults to `'signup-draft'`.
+ * @returns A {@link SignupDraftStore}.
+ *
+ * @example
+ * ```typescript
+ * const drafts = createSignupDraftStore(window.localStorage);
+ * drafts.save(form.getValues());
+ * drafts.load(); // { name, username, email, newsletter }
+ * ```
+ */
+export function createSignupDraftStore(
+  storage: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>,
+  key = 'signup-draft'
+): SignupDraftStore {
+  return {
+    load: () => {
+      try {
+        const raw = storage.getItem(key);
+        if (!raw) {
+          return null;
+        }
+        const result = v.safeParse(draftSchema, JSON.parse(raw));
+        return result.success ? result.output : null;
+      } catch {
+        return null;
+      }
+    },
+    save: (values) => {
+      const result = v.safeParse(draftSchema, values);
+      if (!result.success) {
+        return;
+      }
+      try {
+        storage.setItem(key, JSON.stringify(result.output));
+      } catch {
+        // Drafts are best-effort
+      }
+    },
+    clear: () => {
+      try {
+        storage.removeItem(key);
+      } catch {
+        // Drafts are best-effort
+      }
+    },
+  };
+}
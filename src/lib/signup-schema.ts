@@ -0,0 +1,126 @@
+import * as v from 'valibot';
+
+import { message } from './i18n';
+
+/**
+ * Field rules shared by the signup form and the `/api/signup` route, so the server accepts
+ * exactly what the form does. Each side appends its own email availability check.
+ * Messages are translated into the `lang` of the parse config, see {@link message}.
+ */
+export const nameSchema = v.pipe(v.string(), v.minLength(1, message('required')));
+
+export const emailSchema = v.pipe(
+  v.string(),
+  v.minLength(1, message('required')),
+  v.email(message('invalidEmail'))
+);
+
+/**
+ * 3 to 20 letters, numbers and underscores, starting with a letter. Uniqueness is compared
+ * case-insensitively by the server.
+ */
+export const usernameSchema = v.pipe(
+  v.string(),
+  v.minLength(1, message('required')),
+  v.minLength(3, message('usernameTooShort')),
+  v.maxLength(20, message('usernameTooLong')),
+  v.regex(/^[a-z]/i, message('usernameStart')),
+  v.regex(/^[a-z0-9_]+$/i, message('usernameCharacters'))
+);
+
+/**
+ * 8 to 128 characters with a lowercase letter, an uppercase letter and a number. How strong a
+ * password is beyond that is estimated separately, see `estimatePasswordStrength`.
+ */
+export const passwordSchema = v.pipe(
+  v.string(),
+  v.minLength(1, message('required')),
+  v.minLength(8, message('passwordTooShort')),
+  v.maxLength(128, message('passwordTooLong')),
+  v.regex(/[a-z]/, message('passwordLowercase')),
+  v.regex(/[A-Z]/, message('passwordUppercase')),
+  v.regex(/[0-9]/, message('passwordNumber'))
+);
+
+export const confirmPasswordSchema = v.pipe(v.string(), v.minLength(1, message('required')));
+
+/**
+ * Whether `confirmPassword` repeats `password`. Use it in a `v.partialCheck` forwarded to
+ * `confirmPassword`, so the check runs even while other fields are invalid and the mismatch is
+ * reported on the confirmation:
+ *
+ * @example
+ * ```typescript
+ * v.forward(
+ *   v.partialCheck([['password'], ['confirmPassword']], passwordsMatch, message('passwordMismatch')),
+ *   ['confirmPassword']
+ * );
+ * ```
+ */
+export const passwordsMatch = (input: { password: string; confirmPassword: string }) =>
+  input.password === input.confirmPassword;
+
+export type SignupField =
+  | 'name'
+  | 'username'
+  | 'email'
+  | 'password'
+  | 'confirmPassword'
+  | 'newsletter';
+
+const signupFields: readonly string[] = [
+  'name',
+  'username',
+  'email',
+  'password',
+  'confirmPassword',
+  'newsletter',
+] satisfies SignupField[];
+
+/**
+ * The body of a `/api/signup` request: every field of the form.
+ */
+export type SignupInput = Record<Exclude<SignupField, 'newsletter'>, string> & {
+  newsletter: boolean;
+};
+
+/**
+ * The first error message of each invalid field.
+ */
+export type SignupFieldErrors = Partial<Record<SignupField, string>>;
+
+const signupFieldErrorsSchema = v.partial(
+  v.object({
+    name: v.string(),
+    username: v.string(),
+    email: v.string(),
+    password: v.string(),
+    confirmPassword: v.string(),
+    newsletter: v.string(),
+  })
+) satisfies v.GenericSchema<SignupFieldErrors>;
+
+/**
+ * The body of a `201`, `400` or `409` response of `/api/signup`: the registered email, or the
+ * field errors.
+ */
+export const signupResponseSchema = v.union([
+  v.object({ email: v.string() }),
+  v.object({ errors: signupFieldErrorsSchema }),
+]);
+
+export type SignupResponse = v.InferOutput<typeof signupResponseSchema>;
+
+/**
+ * Collects the first issue message of every top-level field of a signup schema.
+ */
+export function toSignupFieldErrors(issues: readonly v.BaseIssue<unknown>[]): SignupFieldErrors {
+  const errors: SignupFieldErrors = {};
+  for (const issue of issues) {
+    const field = issue.path?.[0]?.key;
+    if (typeof field === 'string' && signupFields.includes(field)) {
+      errors[field as SignupField] ??= issue.message;
+    }
+  }
+  return errors;
+}
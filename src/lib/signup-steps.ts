@@ -0,0 +1,24 @@
+import type { SignupField } from './signup-schema';
+
+/**
+ * The steps of the signup wizard, in order.
+ */
+export const signupSteps = ['account', 'profile', 'preferences'] as const;
+
+export type SignupStep = (typeof signupSteps)[number];
+
+/**
+ * The fields entered on each step. Every field belongs to exactly one step, so an error can be
+ * shown by going to the step of its field.
+ */
+export const stepFields: Record<SignupStep, SignupField[]> = {
+  account: ['username', 'email', 'password', 'confirmPassword'],
+  profile: ['name'],
+  preferences: ['newsletter'],
+};
+
+/**
+ * Returns the step on which `field` is entered.
+ */
+export const getFieldStep = (field: SignupField) =>
+  signupSteps.find((step) => stepFields[step].includes(field)) ?? signupSteps[0];
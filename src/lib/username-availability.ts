@@ -0,0 +1,123 @@
+import * as v from 'valibot';
+
+import { createFileValueStore } from './file-value-store';
+import { usernameSchema } from './signup-schema';
+import { createMemoryValueStore, type ValueStore } from './value-store';
+
+import type { AvailabilityResponse } from './availability-contract';
+
+export type UsernameAvailability = {
+  /** Resolves with whether the username is available; `value` in the response is normalized. */
+  check: (username: string) => Promise<AvailabilityResponse>;
+  /** Stores the normalized username and resolves with `false` if it was already taken. */
+  register: (username: string) => Promise<boolean>;
+  /** Removes the normalized username, e.g. to roll back a signup that failed later on. */
+  unregister: (username: string) => Promise<boolean>;
+  normalize: (username: string) => string;
+};
+
+type Options = {
+  store: ValueStore;
+  reserved?: Iterable<string>;
+  suggestionCount?: number;
+};
+
+/**
+ * Usernames that could be mistaken for the system or its pages.
+ */
+export const reservedUsernames = [
+  'admin',
+  'administrator',
+  'api',
+  'root',
+  'signup',
+  'support',
+  'system',
+];
+
+/**
+ * Returns usernames derived from `username` by appending numbers (`jane1`, `jane_1`, `jane2`, …),
+ * shortened so that they stay within the length limit.
+ */
+function* usernameCandidates(username: string) {
+  const base = username.replace(/[^a-z0-9_]/g, '');
+  for (let n = 1; n <= 99; n++) {
+    yield `${base.slice(0, 20 - String(n).length)}${n}`;
+    yield `${base.slice(0, 19 - String(n).length)}_${n}`;
+  }
+}
+
+/**
+ * Creates the username availability service used by the API routes. Usernames are compared
+ * case-insensitively, so `Jane` is taken once `jane` is registered. When a username is taken or
+ * reserved, the response suggests a few similar usernames that are still available.
+ *
+ * @param options - Configuration options for the service.
+ * @param options.store - Where registered usernames are kept, e.g. {@link createMemoryValueStore}.
+ * @param options.reserved - Usernames that can never be registered. Defaults to {@link reservedUsernames}.
+ * @param options.suggestionCount - How many alternatives to suggest. Defaults to 3; 0 disables them.
+ * @returns A {@link UsernameAvailability}.
+ */
+export function createUsernameAvailability({
+  store,
+  reserved = reservedUsernames,
+  suggestionCount = 3,
+}: Options): UsernameAvailability {
+  const normalize = (username: string) => username.trim().toLowerCase();
+  const reservedSet = new Set(Array.from(reserved, normalize));
+
+  const isAvailable = async (username: string) =>
+    !reservedSet.has(username) && !(await store.has(username));
+
+  const suggest = async (username: string) => {
+    const suggestions: string[] = [];
+    for (const candidate of usernameCandidates(username)) {
+      if (suggestions.length >= suggestionCount) {
+        break;
+      }
+      if (v.is(usernameSchema, candidate) && (await isAvailable(candidate))) {
+        suggestions.push(candidate);
+      }
+    }
+    return suggestions;
+  };
+
+  return {
+    check: async (username) => {
+      const normalized = normalize(username);
+      if (await isAvailable(normalized)) {
+        return { value: normalized, available: true };
+      }
+      return {
+        value: normalized,
+        available: false,
+        reason: reservedSet.has(normalized) ? 'reserved' : 'registered',
+        suggestions: await suggest(normalized),
+      };
+    },
+    register: async (username) => {
+      const normalized = normalize(username);
+      return !reservedSet.has(normalized) && store.add(normalized);
+    },
+    unregister: (username) => store.delete(normalize(username)),
+    normalize,
+  };
+}
+
+const seedUsernames = ['example', 'test'];
+
+let defaultAvailability: UsernameAvailability | null = null;
+
+/**
+ * Returns the service shared by the API routes. Registered usernames are kept in the JSON file at
+ * `USERNAME_STORE_FILE` when it is set, and in memory (seeded with a few examples) otherwise.
+ */
+export function getUsernameAvailability(): UsernameAvailability {
+  if (!defaultAvailability) {
+    const file = process.env.USERNAME_STORE_FILE;
+    defaultAvailability = createUsernameAvailability({
+      store: file ? createFileValueStore(file) : createMemoryValueStore(seedUsernames),
+    });
+  }
+  return defaultAvailability;
+}
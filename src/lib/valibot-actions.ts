@@ -0,0 +1,160 @@
+import * as v from 'valibot';
+
+import {
+  createDebouncedValidator,
+  type DebouncedValidator,
+  type DebouncedValidatorOptions,
+  type ValidateFn,
+} from './debounced-validator';
+import { toValidationResult, type ValidationResult } from './validation-result';
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Derives the issue message from an invalid result and the `lang` of the parse config, e.g. to
+ * translate its `code`. Returning `undefined` falls back to the result's own `message`.
+ */
+export type GetResultMessage = (
+  result: ValidationResult,
+  lang: string | undefined
+) => string | undefined;
+
+export interface CheckResultIssue<TInput> extends v.BaseIssue<TInput> {
+  readonly kind: 'validation';
+  readonly type: 'check_result';
+  readonly expected: null;
+}
+
+export interface CheckResultAction<TInput>
+  extends v.BaseValidationAsync<TInput, TInput, CheckResultIssue<TInput>> {
+  readonly type: 'check_result';
+  readonly reference: typeof checkResultAsync;
+  readonly expects: null;
+  readonly requirement: (input: TInput) => MaybePromise<boolean | ValidationResult>;
+  readonly message: v.ErrorMessage<CheckResultIssue<TInput>> | undefined;
+  readonly getMessage: GetResultMessage | undefined;
+}
+
+/**
+ * Creates an async check action like `v.checkAsync`, but the requirement may also return a
+ * {@link ValidationResult}. Its `message` becomes the issue message, falling back to `message`
+ * when the requirement returns a plain boolean or no message.
+ *
+ * @param requirement - The validation function.
+ * @param message - The fallback error message.
+ * @param getMessage - Takes precedence over the result's `message`, see {@link GetResultMessage}.
+ * @returns A check result action.
+ *
+ * @example
+ * ```typescript
+ * const schema = v.pipeAsync(
+ *   v.string(),
+ *   checkResultAsync(checkEmail, 'This email is not available')
+ * );
+ * ```
+ */
+export function checkResultAsync<TInput>(
+  requirement: (input: TInput) => MaybePromise<boolean | ValidationResult>,
+  message?: v.ErrorMessage<CheckResultIssue<TInput>>,
+  getMessage?: GetResultMessage
+): CheckResultAction<TInput> {
+  return {
+    kind: 'validation',
+    type: 'check_result',
+    reference: checkResultAsync,
+    async: true,
+    expects: null,
+    requirement,
+    message,
+    getMessage,
+    async '~run'(dataset, config) {
+      if (dataset.typed) {
+        const result = toValidationResult(await this.requirement(dataset.value));
+        if (!result.valid) {
+          v._addIssue(this, 'input', dataset, config, {
+            message: this.getMessage?.(result, config.lang) ?? result.message,
+          });
+        }
+      }
+      return dataset as v.OutputDataset<TInput, CheckResultIssue<TInput>>;
+    },
+  };
+}
+
+export interface DebouncedCheckIssue<TInput> extends v.BaseIssue<TInput> {
+  readonly kind: 'validation';
+  readonly type: 'debounced_check';
+  readonly expected: null;
+}
+
+export interface DebouncedCheckAction<TInput>
+  extends v.BaseValidationAsync<TInput, TInput, DebouncedCheckIssue<TInput>> {
+  readonly type: 'debounced_check';
+  readonly reference: typeof debouncedCheckAsync;
+  readonly expects: null;
+  readonly validator: DebouncedValidator<TInput>;
+  readonly message: v.ErrorMessage<DebouncedCheckIssue<TInput>> | undefined;
+  readonly getMessage: GetResultMessage | undefined;
+}
+
+type DebouncedCheckOptions<TInput> = DebouncedValidatorOptions<TInput> & {
+  message?: v.ErrorMessage<DebouncedCheckIssue<TInput>>;
+  getMessage?: GetResultMessage;
+};
+
+/**
+ * Creates an async check action that debounces, caches and de-duplicates its validation with
+ * {@link createDebouncedValidator}. Declare it directly in `v.pipeAsync`, so the schema can be a
+ * module-level constant instead of being rebuilt around a hook on every render.
+ *
+ * Each action owns its validator, exposed as `validator`, e.g. to read its state with
+ * `useValidatorState` or to `flush` it on blur. Everything that parses with the schema shares
+ * it, so a newer value settles the waiting calls of every caller: when several forms validate at
+ * once, give each its own validator with `useDebouncedValidator` and `checkResultAsync` instead.
+ *
+ * @param validate - The validation function. See {@link createDebouncedValidator}.
+ * @param options - Every option of {@link createDebouncedValidator}, plus:
+ * @param options.message - The error message used when the result has no `message` of its own.
+ * @param options.getMessage - Takes precedence over the result's `message`, see {@link GetResultMessage}.
+ * @returns A debounced check action.
+ *
+ * @example
+ * ```typescript
+ * const schema = v.objectAsync({
+ *   email: v.pipeAsync(
+ *     v.string(),
+ *     v.email(),
+ *     debouncedCheckAsync(isEmailAvailable, { delay: 500, message: 'Not available' })
+ *   ),
+ * });
+ * ```
+ */
+export function debouncedCheckAsync<TInput>(
+  validate: ValidateFn<TInput>,
+  options: DebouncedCheckOptions<TInput> = {}
+): DebouncedCheckAction<TInput> {
+  const { message, getMessage, ...validatorOptions } = options;
+  const validator = createDebouncedValidator(validate, validatorOptions);
+
+  return {
+    kind: 'validation',
+    type: 'debounced_check',
+    reference: debouncedCheckAsync,
+    async: true,
+    expects: null,
+    validator,
+    message,
+    getMessage,
+    async '~run'(dataset, config) {
+      if (dataset.typed) {
+        const result = await this.validator.check(dataset.value);
+        if (!result.valid) {
+          v._addIssue(this, 'input', dataset, config, {
+            message: this.getMessage?.(result, config.lang) ?? result.message,
+          });
+        }
+      }
+      return dataset as v.OutputDataset<TInput, DebouncedCheckIssue<TInput>>;
+    },
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * The outcome of a validation, with optional details for the user.
+ *
+ * `message` is shown instead of the generic error message when present, and `code` lets
+ * callers tell different failure reasons apart (e.g. `'registered'` vs. `'blocked_domain'`).
+ * `suggestions` are alternative values the user could pick instead of an invalid one.
+ */
+export type ValidationResult = {
+  valid: boolean;
+  message?: string;
+  code?: string;
+  suggestions?: string[];
+};
+
+/**
+ * Normalizes the return value of a validation function into a {@link ValidationResult}.
+ * Plain values are coerced with `Boolean`, so `undefined` and `null` are invalid.
+ */
+export function toValidationResult(raw: unknown): ValidationResult {
+  if (typeof raw === 'object' && raw !== null && 'valid' in raw) {
+    const { valid, message, code, suggestions } = raw as ValidationResult;
+    return {
+      valid: Boolean(valid),
+      ...(message !== undefined && { message }),
+      ...(code !== undefined && { code }),
+      ...(suggestions !== undefined && { suggestions }),
+    };
+  }
+
+  return { valid: Boolean(raw) };
+}
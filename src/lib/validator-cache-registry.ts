@@ -0,0 +1,64 @@
+import { createValidatorCache, type ValidatorCache } from './validator-cache';
+
+import type { ValidationResult } from './validation-result';
+
+type Options = {
+  maxSize?: number;
+  ttl?: number;
+  storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+};
+
+export type ValidatorCacheRegistry = {
+  getCache: (namespace: string) => ValidatorCache<unknown, ValidationResult>;
+  invalidate: (namespace: string, key: unknown) => void;
+  clear: (namespace?: string) => void;
+};
+
+/**
+ * Creates a registry of validator caches keyed by namespace, so that independent validators
+ * checking the same thing (e.g. email availability) can share their results.
+ *
+ * @param options - Configuration options applied to every cache in the registry.
+ * @param options.maxSize - The maximum number of entries per namespace. Defaults to 100.
+ * @param options.ttl - How long an entry stays fresh in milliseconds. Defaults to `Infinity`.
+ * @param options.storage - A `Storage` to persist each namespace to, under `validator-cache:<namespace>`.
+ * @returns A {@link ValidatorCacheRegistry}.
+ *
+ * @example
+ * ```typescript
+ * const registry = createValidatorCacheRegistry({ ttl: 30_000 });
+ * registry.getCache('email').set('user@example.com', { valid: true });
+ *
+ * // After the email has been registered elsewhere
+ * registry.invalidate('email', 'user@example.com');
+ * ```
+ */
+export function createValidatorCacheRegistry(options: Options = {}): ValidatorCacheRegistry {
+  const caches = new Map<string, ValidatorCache<unknown, ValidationResult>>();
+
+  const getCache = (namespace: string) => {
+    let cache = caches.get(namespace);
+    if (!cache) {
+      cache = createValidatorCache<unknown, ValidationResult>({
+        ...options,
+        storageKey: `validator-cache:${namespace}`,
+      });
+      caches.set(namespace, cache);
+    }
+    return cache;
+  };
+
+  return {
+    getCache,
+    invalidate: (namespace, key) => {
+      getCache(namespace).delete(key);
+    },
+    clear: (namespace) => {
+      if (namespace !== undefined) {
+        getCache(namespace).clear();
+        return;
+      }
+      caches.forEach((cache) => cache.clear());
+    },
+  };
+}
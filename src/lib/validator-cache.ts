@@ -0,0 +1,151 @@
+type Entry<V> = {
+  value: V;
+  expiresAt: number;
+};
+
+type Options = {
+  maxSize?: number;
+  ttl?: number;
+  storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+  storageKey?: string;
+};
+
+type SerializedEntry<K, V> = [key: K, value: V, expiresAt: number | null];
+
+export type ValidatorCache<K = unknown, V = boolean> = {
+  get: (key: K) => V | undefined;
+  has: (key: K) => boolean;
+  set: (key: K, value: V) => void;
+  delete: (key: K) => boolean;
+  clear: () => void;
+  readonly size: number;
+};
+
+/**
+ * Creates a size-bounded cache for validation results with least-recently-used eviction
+ * and optional per-entry expiry.
+ *
+ * Keys are compared with `SameValueZero` like a `Map`, so structural keys (for example a
+ * normalized email or a serialized object) should be derived before calling the cache.
+ *
+ * @param options - Configuration options for the cache.
+ * @param options.maxSize - The maximum number of entries. Defaults to 100.
+ *   When exceeded, the least recently read or written entry is removed.
+ * @param options.ttl - How long an entry stays fresh in milliseconds. Defaults to `Infinity`.
+ *   Expired entries are treated as missing and removed on access.
+ * @param options.storage - A `Storage` (e.g. `sessionStorage`) to persist entries to. Optional.
+ *   Entries are restored on creation and written back on every change, so keys and values
+ *   must be JSON-serializable. Storage failures (quota, privacy mode) are ignored.
+ * @param options.storageKey - The storage key entries are persisted under. Defaults to `'validator-cache'`.
+ * @returns A {@link ValidatorCache}.
+ *
+ * @example
+ * ```typescript
+ * const cache = createValidatorCache<string>({ maxSize: 50, ttl: 60_000 });
+ * cache.set('user@example.com', true);
+ * cache.get('user@example.com'); // true, until a minute has passed
+ * ```
+ */
+export function createValidatorCache<K = unknown, V = boolean>(
+  options: Options = {}
+): ValidatorCache<K, V> {
+  const { maxSize = 100, ttl = Infinity, storage, storageKey = 'validator-cache' } = options;
+  const entries = new Map<K, Entry<V>>();
+
+  const persist = () => {
+    if (!storage) {
+      return;
+    }
+
+    try {
+      if (entries.size === 0) {
+        storage.removeItem(storageKey);
+        return;
+      }
+
+      // Infinity is not representable in JSON, so non-expiring entries are stored as null
+      const serialized: Array<SerializedEntry<K, V>> = Array.from(entries, ([key, entry]) => [
+        key,
+        entry.value,
+        Number.isFinite(entry.expiresAt) ? entry.expiresAt : null,
+      ]);
+      storage.setItem(storageKey, JSON.stringify(serialized));
+    } catch {
+      // Persistence is best-effort
+    }
+  };
+
+  const restore = () => {
+    if (!storage) {
+      return;
+    }
+
+    try {
+      const raw = storage.getItem(storageKey);
+      if (!raw) {
+        return;
+      }
+
+      const now = Date.now();
+      const serialized = JSON.parse(raw) as Array<SerializedEntry<K, V>>;
+      for (const [key, value, expiresAt] of serialized.slice(-maxSize)) {
+        if (expiresAt === null || now < expiresAt) {
+          entries.set(key, { value, expiresAt: expiresAt ?? Infinity });
+        }
+      }
+    } catch {
+      // Ignore corrupt or inaccessible storage and start empty
+    }
+  };
+
+  restore();
+
+  const read = (key: K) => {
+    const entry = entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (Date.now() >= entry.expiresAt) {
+      entries.delete(key);
+      persist();
+      return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry;
+  };
+
+  return {
+    get: (key) => read(key)?.value,
+    has: (key) => read(key) !== undefined,
+    set: (key, value) => {
+      entries.delete(key);
+
+      // Map iteration order is insertion order, so the first key is the least recently used
+      while (entries.size >= maxSize && entries.size > 0) {
+        const oldestKey = entries.keys().next().value as K;
+        entries.delete(oldestKey);
+      }
+
+      entries.set(key, { value, expiresAt: Date.now() + ttl });
+      persist();
+    },
+    delete: (key) => {
+      const deleted = entries.delete(key);
+      if (deleted) {
+        persist();
+      }
+      return deleted;
+    },
+    clear: () => {
+      entries.clear();
+      persist();
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Storage for values that must be unique, such as registered emails or usernames.
+ * Values are stored exactly as given, so callers normalize them first.
+ */
+export type ValueStore = {
+  has: (value: string) => Promise<boolean>;
+  /** Adds a value and resolves with `false` if it was already stored. */
+  add: (value: string) => Promise<boolean>;
+  /** Removes a value and resolves with `false` if it was not stored. */
+  delete: (value: string) => Promise<boolean>;
+};
+
+/**
+ * Creates a {@link ValueStore} that keeps values in memory. Useful for development and tests;
+ * every server instance has its own copy and nothing survives a restart.
+ *
+ * @param values - The values stored initially.
+ * @returns A {@link ValueStore}.
+ */
+export function createMemoryValueStore(values: Iterable<string> = []): ValueStore {
+  const stored = new Set(values);
+
+  return {
+    has: async (value) => stored.has(value),
+    add: async (value) => {
+      if (stored.has(value)) {
+        return false;
+      }
+      stored.add(value);
+      return true;
+    },
+    delete: async (value) => stored.delete(value),
+  };
+}